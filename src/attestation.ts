@@ -0,0 +1,539 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { execFileSync } from "child_process";
+import { secp256k1 } from "@noble/curves/secp256k1";
+import { keccak_256 } from "@noble/hashes/sha3";
+import { bytesToHex, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+import { contributionRootFolder } from "./utils";
+import { getCeremonyConfig } from "./config";
+import { isValidGithubUsername } from "./participants";
+import type { ParentCheckResult } from "./precheck";
+import type { EntropySourceRecord } from "./entropy";
+
+// Namespace bound into SSH signatures so they cannot be replayed elsewhere
+export const ATTESTATION_NAMESPACE = "trusted-setup-attestation";
+
+export type SignatureScheme = "ssh" | "gpg" | "eth";
+
+export interface AttestationFile {
+  filename: string;
+  // SHA-256 of the zkey
+  hash: string;
+  // SHA-256 of the parent zkey the contribution was made on
+  previousHash?: string;
+  // Blake2b-512 contribution hash snarkjs printed for this contribution
+  contributionHash?: string;
+}
+
+export interface AttestationSignature {
+  scheme: SignatureScheme;
+  // OpenSSH public key line, ASCII-armored GPG public key or Ethereum address
+  publicKey: string;
+  // SSH signature, ASCII-armored detached GPG signature or 0x-prefixed EIP-191 signature
+  signature: string;
+}
+
+export interface Attestation {
+  // Absent in attestations written before ceremonies were configurable
+  ceremonyId?: string;
+  contributor: string;
+  contributionNumber: string;
+  timestamp: string;
+  files: AttestationFile[];
+  // Absent in attestations written before it was recorded
+  snarkjsVersion?: string;
+  // Which entropy sources were mixed and how many bytes each gave
+  entropySources?: EntropySourceRecord[];
+  // Check of the parent folder the contribution was built on
+  parentCheck?: ParentCheckResult;
+  signature?: AttestationSignature;
+  [field: string]: unknown;
+}
+
+export interface SignatureCheck {
+  signed: boolean;
+  valid: boolean;
+  scheme?: SignatureScheme;
+  signer?: string;
+  errorMessage?: string;
+  // Whether the signing key belongs to the contributor's GitHub account;
+  // only checked for valid signatures
+  keyLinked?: boolean;
+  // Where the key was found for the contributor, or why it was not
+  keySource?: string;
+}
+
+// A signature was asked for but could not be made
+export class SigningError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SigningError";
+  }
+}
+
+// Where GitHub publishes the SSH and GPG keys of its users
+const GITHUB_URL = "https://github.com";
+const GITHUB_TIMEOUT_MS = 10_000;
+
+// JSON with recursively sorted keys, so the payload does not depend on field order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`,
+      );
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// The exact bytes that get signed: every attestation field except the signature
+export function getAttestationPayload(attestation: Attestation): string {
+  const { signature, ...payload } = attestation;
+  return canonicalJson(payload);
+}
+
+export function readAttestation(folderName: string): Attestation | null {
+  const attestationPath = path.join(
+    contributionRootFolder,
+    folderName,
+    "attestation.json",
+  );
+  if (!fs.existsSync(attestationPath)) {
+    return null;
+  }
+  let attestation: Attestation;
+  try {
+    attestation = fs.readJsonSync(attestationPath) as Attestation;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `${folderName}/attestation.json is not valid JSON: ${message}`,
+    );
+  }
+  if (
+    !attestation ||
+    typeof attestation.contributor !== "string" ||
+    !Array.isArray(attestation.files)
+  ) {
+    throw new Error(
+      `${folderName}/attestation.json has no contributor or files list`,
+    );
+  }
+  return attestation;
+}
+
+// Run a command with the payload on stdin, without going through a shell
+function runWithInput(command: string, args: string[], input: string): string {
+  return execFileSync(command, args, {
+    input,
+    encoding: "utf8",
+    stdio: ["pipe", "pipe", "inherit"],
+  });
+}
+
+export function signWithSshKey(
+  payload: string,
+  privateKeyPath: string,
+): AttestationSignature {
+  const publicKeyPath = `${privateKeyPath}.pub`;
+  if (!fs.existsSync(publicKeyPath)) {
+    throw new Error(`SSH public key not found at ${publicKeyPath}`);
+  }
+
+  const signature = runWithInput(
+    "ssh-keygen",
+    ["-Y", "sign", "-f", privateKeyPath, "-n", ATTESTATION_NAMESPACE],
+    payload,
+  );
+
+  return {
+    scheme: "ssh",
+    publicKey: fs.readFileSync(publicKeyPath, "utf8").trim(),
+    signature: signature.trim(),
+  };
+}
+
+export function signWithGpgKey(
+  payload: string,
+  keyId: string,
+): AttestationSignature {
+  const signature = runWithInput(
+    "gpg",
+    ["--armor", "--detach-sign", "--local-user", keyId],
+    payload,
+  );
+  const publicKey = execFileSync("gpg", ["--armor", "--export", keyId], {
+    encoding: "utf8",
+  });
+
+  if (!publicKey.trim()) {
+    throw new Error(`GPG public key ${keyId} could not be exported`);
+  }
+
+  return {
+    scheme: "gpg",
+    publicKey: publicKey.trim(),
+    signature: signature.trim(),
+  };
+}
+
+// EIP-191 personal_sign digest of a message
+function hashPersonalMessage(message: string): Uint8Array {
+  const messageBytes = utf8ToBytes(message);
+  const prefix = utf8ToBytes(
+    `\x19Ethereum Signed Message:\n${messageBytes.length}`,
+  );
+  const data = new Uint8Array(prefix.length + messageBytes.length);
+  data.set(prefix);
+  data.set(messageBytes, prefix.length);
+  return keccak_256(data);
+}
+
+// Recover the signing address of an EIP-191 personal_sign signature
+export function recoverEthereumSigner(
+  message: string,
+  signatureHex: string,
+): string {
+  const signature = hexToBytes(signatureHex.replace(/^0x/, ""));
+  if (signature.length !== 65) {
+    throw new Error("Ethereum signature must be 65 bytes long");
+  }
+
+  const v = signature[64];
+  const recovery = v >= 27 ? v - 27 : v;
+  if (recovery !== 0 && recovery !== 1) {
+    throw new Error(`Invalid Ethereum signature recovery id: ${v}`);
+  }
+
+  const publicKey = secp256k1.Signature.fromCompact(signature.slice(0, 64))
+    .addRecoveryBit(recovery)
+    .recoverPublicKey(hashPersonalMessage(message))
+    .toRawBytes(false);
+
+  return `0x${bytesToHex(keccak_256(publicKey.slice(1)).slice(-20))}`;
+}
+
+export function ethereumSignature(
+  address: string,
+  signature: string,
+): AttestationSignature {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    throw new Error(`Invalid Ethereum address: ${address}`);
+  }
+  if (!/^0x[0-9a-fA-F]{130}$/.test(signature)) {
+    throw new Error("Ethereum signature must be a 0x-prefixed 65-byte hex");
+  }
+  return { scheme: "eth", publicKey: address, signature };
+}
+
+function verifySshSignature(
+  payload: string,
+  signature: AttestationSignature,
+  tempDir: string,
+): string {
+  const allowedSignersPath = path.join(tempDir, "allowed_signers");
+  const signaturePath = path.join(tempDir, "attestation.sig");
+  fs.writeFileSync(allowedSignersPath, `contributor ${signature.publicKey}\n`);
+  fs.writeFileSync(signaturePath, `${signature.signature}\n`);
+
+  try {
+    execFileSync(
+      "ssh-keygen",
+      [
+        "-Y",
+        "verify",
+        "-f",
+        allowedSignersPath,
+        "-I",
+        "contributor",
+        "-n",
+        ATTESTATION_NAMESPACE,
+        "-s",
+        signaturePath,
+      ],
+      { input: payload, stdio: ["pipe", "pipe", "pipe"] },
+    );
+  } catch (error) {
+    throw new Error("SSH signature does not match the attestation");
+  }
+
+  // Report the key fingerprint as the signer identity
+  const fingerprint = execFileSync("ssh-keygen", ["-l", "-f", "-"], {
+    input: signature.publicKey,
+    encoding: "utf8",
+  });
+  return fingerprint.trim().split(/\s+/)[1];
+}
+
+function verifyGpgSignature(
+  payload: string,
+  signature: AttestationSignature,
+  tempDir: string,
+): string {
+  // Use a throwaway keyring so the verifier's own keys are not involved
+  const gnupgHome = path.join(tempDir, "gnupg");
+  fs.ensureDirSync(gnupgHome);
+  fs.chmodSync(gnupgHome, 0o700);
+
+  const publicKeyPath = path.join(tempDir, "public.asc");
+  const signaturePath = path.join(tempDir, "attestation.asc");
+  fs.writeFileSync(publicKeyPath, `${signature.publicKey}\n`);
+  fs.writeFileSync(signaturePath, `${signature.signature}\n`);
+
+  const env = { ...process.env, GNUPGHOME: gnupgHome };
+  execFileSync("gpg", ["--batch", "--import", publicKeyPath], {
+    env,
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+
+  let status: string;
+  try {
+    status = execFileSync(
+      "gpg",
+      ["--batch", "--status-fd", "1", "--verify", signaturePath, "-"],
+      {
+        env,
+        input: payload,
+        encoding: "utf8",
+        stdio: ["pipe", "pipe", "pipe"],
+      },
+    );
+  } catch (error) {
+    throw new Error("GPG signature does not match the attestation");
+  }
+
+  const validSig = status.match(/^\[GNUPG:\] VALIDSIG (.+)$/m);
+  if (!validSig) {
+    throw new Error("GPG did not report a valid signature");
+  }
+  // The fingerprint of the primary key comes last; a signature by a subkey
+  // is reported as one by its primary key, which is what people publish
+  const fields = validSig[1].trim().split(/\s+/);
+  return fields[9] ?? fields[0];
+}
+
+function verifyEthereumSignature(
+  payload: string,
+  signature: AttestationSignature,
+): string {
+  const signer = recoverEthereumSigner(payload, signature.signature);
+  if (signer.toLowerCase() !== signature.publicKey.toLowerCase()) {
+    throw new Error(
+      `Ethereum signature was made by ${signer}, not ${signature.publicKey}`,
+    );
+  }
+  return signature.publicKey;
+}
+
+export function verifyAttestationSignature(
+  attestation: Attestation,
+): SignatureCheck {
+  const signature = attestation.signature;
+  if (!signature) {
+    return { signed: false, valid: false };
+  }
+
+  const payload = getAttestationPayload(attestation);
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "attestation-"));
+
+  try {
+    let signer: string;
+    switch (signature.scheme) {
+      case "ssh":
+        signer = verifySshSignature(payload, signature, tempDir);
+        break;
+      case "gpg":
+        signer = verifyGpgSignature(payload, signature, tempDir);
+        break;
+      case "eth":
+        signer = verifyEthereumSignature(payload, signature);
+        break;
+      default:
+        throw new Error(`Unknown signature scheme: ${signature.scheme}`);
+    }
+    return { signed: true, valid: true, scheme: signature.scheme, signer };
+  } catch (error) {
+    return {
+      signed: true,
+      valid: false,
+      scheme: signature.scheme,
+      errorMessage: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    fs.removeSync(tempDir);
+  }
+}
+
+// The part of a public key that identifies it: OpenSSH keys without their
+// comment, GPG fingerprints in upper case without spaces and addresses in
+// lower case
+function normalizeKey(scheme: SignatureScheme, key: string): string {
+  switch (scheme) {
+    case "ssh":
+      return key.trim().split(/\s+/).slice(0, 2).join(" ");
+    case "gpg":
+      return key.replace(/\s+/g, "").toUpperCase();
+    case "eth":
+      return key.trim().toLowerCase();
+  }
+}
+
+// Keys in the allowed signers file by lowercased username: one
+// "<username> <key>" per line, the key being an OpenSSH public key, a GPG
+// fingerprint or an Ethereum address; "#" starts a comment
+function readAllowedSigners(file: string): Map<string, string[]> {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Allowed signers file ${file} not found`);
+  }
+  const signers = new Map<string, string[]>();
+  for (const line of fs.readFileSync(file, "utf8").split("\n")) {
+    const entry = line.replace(/#.*/, "").trim();
+    const [username, ...key] = entry.split(/\s+/);
+    if (!entry || key.length === 0) {
+      continue;
+    }
+    const keys = signers.get(username.toLowerCase()) ?? [];
+    keys.push(key.join(" "));
+    signers.set(username.toLowerCase(), keys);
+  }
+  return signers;
+}
+
+async function fetchGithubKeys(
+  username: string,
+  kind: string,
+): Promise<string> {
+  const url = `${GITHUB_URL}/${username}.${kind}`;
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      signal: AbortSignal.timeout(GITHUB_TIMEOUT_MS),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`could not fetch ${url}: ${message}`);
+  }
+  if (!response.ok) {
+    throw new Error(`could not fetch ${url}: HTTP ${response.status}`);
+  }
+  return response.text();
+}
+
+// Fingerprints of all keys and subkeys in an ASCII-armored key block
+function listGpgFingerprints(armoredKeys: string): string[] {
+  const gnupgHome = fs.mkdtempSync(path.join(os.tmpdir(), "attestation-"));
+  try {
+    fs.chmodSync(gnupgHome, 0o700);
+    const env = { ...process.env, GNUPGHOME: gnupgHome };
+    execFileSync("gpg", ["--batch", "--import"], {
+      env,
+      input: armoredKeys,
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    const listing = execFileSync(
+      "gpg",
+      ["--batch", "--with-colons", "--with-subkey-fingerprints", "--list-keys"],
+      { env, encoding: "utf8", stdio: ["ignore", "pipe", "pipe"] },
+    );
+    return listing
+      .split("\n")
+      .filter((line) => line.startsWith("fpr:"))
+      .map((line) => line.split(":")[9]);
+  } finally {
+    fs.removeSync(gnupgHome);
+  }
+}
+
+// Keys GitHub publishes for the user, normalized; none for Ethereum
+async function fetchGithubSigningKeys(
+  username: string,
+  scheme: SignatureScheme,
+): Promise<string[]> {
+  switch (scheme) {
+    case "ssh":
+      return (await fetchGithubKeys(username, "keys"))
+        .split("\n")
+        .filter((line) => line.trim())
+        .map((line) => normalizeKey("ssh", line));
+    case "gpg": {
+      const armoredKeys = await fetchGithubKeys(username, "gpg");
+      return armoredKeys.includes("BEGIN PGP PUBLIC KEY BLOCK")
+        ? listGpgFingerprints(armoredKeys)
+        : [];
+    }
+    case "eth":
+      return [];
+  }
+}
+
+// A valid signature only shows that the attestation was signed with the key
+// stored next to it. Check that this key belongs to the contributor: listed
+// for them in the allowed signers file of the ceremony config, or published
+// on their GitHub account.
+export async function checkSignerIdentity(
+  attestation: Attestation,
+  check: SignatureCheck,
+): Promise<SignatureCheck> {
+  const signature = attestation.signature;
+  if (!check.valid || !signature || !check.signer) {
+    return check;
+  }
+  const { contributor } = attestation;
+  const signingKey = normalizeKey(
+    signature.scheme,
+    signature.scheme === "ssh" ? signature.publicKey : check.signer,
+  );
+  const notLinked = (reason: string): SignatureCheck => ({
+    ...check,
+    keyLinked: false,
+    keySource: reason,
+  });
+
+  try {
+    const { allowedSignersFile } = getCeremonyConfig();
+    if (allowedSignersFile) {
+      const keys = readAllowedSigners(allowedSignersFile).get(
+        contributor.toLowerCase(),
+      );
+      if (
+        keys?.some((key) => normalizeKey(signature.scheme, key) === signingKey)
+      ) {
+        return { ...check, keyLinked: true, keySource: allowedSignersFile };
+      }
+    }
+
+    if (signature.scheme === "eth") {
+      return notLinked(
+        `${check.signer} is not listed for ${contributor} in the allowed signers file`,
+      );
+    }
+    if (!isValidGithubUsername(contributor)) {
+      return notLinked(`${contributor} is not a GitHub username`);
+    }
+    const kind = signature.scheme === "ssh" ? "keys" : "gpg";
+    const githubKeys = await fetchGithubSigningKeys(
+      contributor,
+      signature.scheme,
+    );
+    if (githubKeys.includes(signingKey)) {
+      return {
+        ...check,
+        keyLinked: true,
+        keySource: `${GITHUB_URL}/${contributor}.${kind}`,
+      };
+    }
+    return notLinked(
+      `the key is not among the ${signature.scheme.toUpperCase()} keys of ${GITHUB_URL}/${contributor}`,
+    );
+  } catch (error) {
+    return notLinked(error instanceof Error ? error.message : String(error));
+  }
+}
@@ -0,0 +1,139 @@
+import { getCliOption } from "./cli";
+import { getCeremonyConfig } from "./config";
+
+const RPC_TIMEOUT_MS = 30000;
+
+// Where the beacon block hash came from, as recorded in BeaconRandomnessMetadata.json
+export interface BeaconSource {
+  // Origin of the JSON-RPC endpoint; the path is dropped as it often holds an API key
+  endpoint: string;
+  fetchedAt: string;
+  latestBlockNumber: string;
+  confirmations: number;
+  // Raw eth_getBlockByNumber JSON-RPC response
+  response: unknown;
+}
+
+export interface BeaconBlock {
+  blockNumber: string;
+  blockHash: string;
+  source: BeaconSource;
+}
+
+interface JsonRpcResponse {
+  jsonrpc: string;
+  id: number;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+// --rpc-url takes precedence over ETH_RPC_URL
+export function getRpcUrl(): string | undefined {
+  return getCliOption("rpc-url") || process.env.ETH_RPC_URL;
+}
+
+// A hash pinned in the ceremony config must match; otherwise the RPC is trusted alone
+export function checkKnownBeaconHash(blockHash: string): string | null {
+  const { beacon } = getCeremonyConfig();
+  if (
+    beacon.blockHash &&
+    blockHash.toLowerCase() !== beacon.blockHash.toLowerCase()
+  ) {
+    return `Block #${beacon.blockNumber} has hash ${blockHash}, but the announced beacon hash is ${beacon.blockHash}`;
+  }
+  return null;
+}
+
+function getEndpointOrigin(rpcUrl: string): string {
+  try {
+    return new URL(rpcUrl).origin;
+  } catch (error) {
+    throw new Error(`Invalid RPC URL: ${rpcUrl}`);
+  }
+}
+
+async function callRpc(
+  rpcUrl: string,
+  method: string,
+  params: unknown[],
+): Promise<JsonRpcResponse> {
+  let response: Response;
+  try {
+    response = await fetch(rpcUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+      signal: AbortSignal.timeout(RPC_TIMEOUT_MS),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `${method} request to ${getEndpointOrigin(rpcUrl)} failed: ${message}`,
+    );
+  }
+
+  if (!response.ok) {
+    throw new Error(
+      `${method} request to ${getEndpointOrigin(rpcUrl)} failed with HTTP ${response.status}`,
+    );
+  }
+
+  const body = (await response.json()) as JsonRpcResponse;
+  if (body.error) {
+    throw new Error(
+      `${method} returned error ${body.error.code}: ${body.error.message}`,
+    );
+  }
+  return body;
+}
+
+// Look up the block hash and make sure the block is deep enough not to be reorged away
+export async function fetchBeaconBlock(
+  rpcUrl: string,
+  blockNumber: string,
+  minConfirmations: number,
+): Promise<BeaconBlock> {
+  const latest = await callRpc(rpcUrl, "eth_blockNumber", []);
+  if (typeof latest.result !== "string") {
+    throw new Error("eth_blockNumber returned an invalid result");
+  }
+  const latestBlockNumber = BigInt(latest.result);
+
+  const response = await callRpc(rpcUrl, "eth_getBlockByNumber", [
+    `0x${BigInt(blockNumber).toString(16)}`,
+    false,
+  ]);
+  const block = response.result as { number?: string; hash?: string } | null;
+  if (!block) {
+    throw new Error(`Block #${blockNumber} was not found by the RPC endpoint`);
+  }
+  if (!block.number || BigInt(block.number) !== BigInt(blockNumber)) {
+    throw new Error(
+      `RPC endpoint returned block ${block.number} instead of #${blockNumber}`,
+    );
+  }
+  if (!block.hash || !/^0x[0-9a-fA-F]{64}$/.test(block.hash)) {
+    throw new Error(
+      `RPC endpoint returned an invalid block hash: ${block.hash}`,
+    );
+  }
+
+  const confirmations = Number(latestBlockNumber - BigInt(blockNumber));
+  if (confirmations < minConfirmations) {
+    throw new Error(
+      `Block #${blockNumber} has ${Math.max(confirmations, 0)} confirmations, ${minConfirmations} required`,
+    );
+  }
+
+  return {
+    blockNumber,
+    blockHash: block.hash.toLowerCase(),
+    source: {
+      endpoint: getEndpointOrigin(rpcUrl),
+      fetchedAt: new Date().toISOString(),
+      latestBlockNumber: latestBlockNumber.toString(),
+      confirmations,
+      response,
+    },
+  };
+}
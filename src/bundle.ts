@@ -0,0 +1,188 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { getCeremonyConfig } from "./config";
+import { sha256File } from "./hashing";
+import { getFilesRecursively } from "./manifest";
+import type { ParentCheckResult } from "./precheck";
+import { isValidGithubUsername } from "./participants";
+
+// Bundles carry zkeys between the online machine and an air-gapped one
+export const bundleRootFolder = "./bundles";
+export const BUNDLE_MANIFEST_FILE = "bundle.json";
+
+// "input": the parent zkeys, written by prepare on the online machine
+// "output": the new contribution folder, written by contribute --offline
+export type BundleKind = "input" | "output";
+
+export interface BundleFile {
+  // Path inside the bundle, always "/"-separated
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+export interface BundleManifest {
+  kind: BundleKind;
+  ceremonyId: string;
+  contributor: string;
+  contributionNumber: string;
+  parentFolder: string;
+  // Folder inside the bundle holding the files
+  folder: string;
+  createdAt: string;
+  // SHA-256 of the input bundle.json an output bundle was produced from
+  inputManifestSha256?: string;
+  // Check of the parent folder run by prepare before packing it
+  parentCheck?: ParentCheckResult;
+  files: BundleFile[];
+}
+
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BundleError";
+  }
+}
+
+export function getBundlePath(folderName: string, kind: BundleKind): string {
+  return path.join(bundleRootFolder, `${folderName}-${kind}`);
+}
+
+export function getBundleManifestPath(bundleDir: string): string {
+  return path.join(bundleDir, BUNDLE_MANIFEST_FILE);
+}
+
+// Copy the files of sourceDir into bundleDir/<manifest.folder> and record
+// their hashes in bundle.json. An existing bundle at bundleDir is replaced.
+export async function writeBundle(
+  bundleDir: string,
+  sourceDir: string,
+  manifest: Omit<BundleManifest, "files" | "createdAt">,
+  include: (file: string) => boolean = () => true,
+): Promise<BundleManifest> {
+  fs.emptyDirSync(bundleDir);
+  const targetDir = path.join(bundleDir, manifest.folder);
+  fs.ensureDirSync(targetDir);
+
+  const files: BundleFile[] = [];
+  const sourceFiles = fs
+    .readdirSync(sourceDir)
+    .filter((file) => fs.statSync(path.join(sourceDir, file)).isFile())
+    .filter(include)
+    .sort();
+
+  for (const file of sourceFiles) {
+    const target = path.join(targetDir, file);
+    fs.copyFileSync(path.join(sourceDir, file), target);
+    files.push({
+      path: `${manifest.folder}/${file}`,
+      size: fs.statSync(target).size,
+      sha256: await sha256File(target),
+    });
+  }
+
+  const complete: BundleManifest = {
+    ...manifest,
+    createdAt: new Date().toISOString(),
+    files,
+  };
+  fs.writeFileSync(
+    getBundleManifestPath(bundleDir),
+    JSON.stringify(complete, null, 2),
+  );
+  return complete;
+}
+
+// A manifest path must stay inside the bundle, as bundles come from removable media
+function isSafeBundlePath(file: string): boolean {
+  return (
+    file.length > 0 &&
+    !file.startsWith("/") &&
+    !file.split("/").some((part) => part === "" || part === "..")
+  );
+}
+
+// Read bundle.json and check every file against it. Throws a BundleError
+// listing every problem when anything is missing, altered or unexpected.
+export async function readBundle(
+  bundleDir: string,
+  kind: BundleKind,
+): Promise<BundleManifest> {
+  const manifestPath = getBundleManifestPath(bundleDir);
+  if (!fs.existsSync(manifestPath)) {
+    throw new BundleError(`${manifestPath} not found`);
+  }
+
+  let manifest: BundleManifest;
+  try {
+    manifest = fs.readJsonSync(manifestPath) as BundleManifest;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new BundleError(`Invalid ${manifestPath}: ${message}`);
+  }
+
+  if (manifest.kind !== kind) {
+    throw new BundleError(
+      `${bundleDir} is an ${manifest.kind} bundle, expected an ${kind} bundle`,
+    );
+  }
+  const { ceremonyId } = getCeremonyConfig();
+  if (manifest.ceremonyId !== ceremonyId) {
+    throw new BundleError(
+      `${bundleDir} belongs to ceremony ${manifest.ceremonyId}, not ${ceremonyId}`,
+    );
+  }
+
+  // The contributor ends up in folder names and storage keys
+  if (!isValidGithubUsername(manifest.contributor)) {
+    throw new BundleError(
+      `${manifestPath} names an invalid contributor "${manifest.contributor}"`,
+    );
+  }
+  if (!/^\d{4}_[A-Za-z0-9_-]+$/.test(String(manifest.folder))) {
+    throw new BundleError(
+      `${manifestPath} names an invalid folder "${manifest.folder}"`,
+    );
+  }
+
+  const errors: string[] = [];
+  const listed = new Set<string>();
+  for (const file of manifest.files) {
+    if (
+      !isSafeBundlePath(file.path) ||
+      !file.path.startsWith(`${manifest.folder}/`)
+    ) {
+      errors.push(`${file.path}: path outside of ${manifest.folder}`);
+      continue;
+    }
+    listed.add(file.path);
+
+    const filePath = path.join(bundleDir, file.path);
+    if (!fs.existsSync(filePath)) {
+      errors.push(`${file.path}: missing`);
+      continue;
+    }
+    const size = fs.statSync(filePath).size;
+    if (size !== file.size) {
+      errors.push(`${file.path}: size ${size}, expected ${file.size}`);
+      continue;
+    }
+    const sha256 = await sha256File(filePath);
+    if (sha256 !== file.sha256) {
+      errors.push(`${file.path}: SHA-256 ${sha256}, expected ${file.sha256}`);
+    }
+  }
+
+  for (const file of getFilesRecursively(bundleDir)) {
+    if (file !== BUNDLE_MANIFEST_FILE && !listed.has(file)) {
+      errors.push(`${file}: not listed in ${BUNDLE_MANIFEST_FILE}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new BundleError(
+      `Bundle ${bundleDir} failed the integrity check:\n  - ${errors.join("\n  - ")}`,
+    );
+  }
+  return manifest;
+}
@@ -0,0 +1,84 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { sha256File } from "./hashing";
+
+export interface VerificationCacheEntry {
+  contributionFolder: string;
+  circuitName: string;
+  verifiedAt: string;
+  durationMs?: number;
+  contributionHash?: string;
+}
+
+interface VerificationCacheData {
+  version: number;
+  // Successful verifications keyed by the hashes of every input
+  verified: Record<string, VerificationCacheEntry>;
+}
+
+// 2: file hashes are no longer cached across runs
+const CACHE_VERSION = 2;
+
+// Persistent record of successful zkey verifications. Entries are keyed by the
+// SHA-256 of the initial zkey, the ptau and the contribution zkey, so renaming
+// or re-downloading a folder does not invalidate them, but any byte change does.
+// The file is rewritten after every verification, which makes runs resumable.
+// The hashes themselves are always taken from the bytes, once per run, as a
+// file can change without its size or mtime changing.
+export class VerificationCache {
+  private data: VerificationCacheData;
+  // SHA-256 of the files hashed in this run, by absolute path
+  private readonly fileHashes = new Map<string, Promise<string>>();
+
+  constructor(private readonly filePath: string) {
+    this.data = this.load();
+  }
+
+  private load(): VerificationCacheData {
+    try {
+      const data = fs.readJsonSync(this.filePath) as VerificationCacheData;
+      if (data.version === CACHE_VERSION) {
+        return data;
+      }
+      console.warn("Verification cache format changed, starting fresh.");
+    } catch (error) {
+      // Missing or unreadable cache: start with an empty one
+    }
+    return { version: CACHE_VERSION, verified: {} };
+  }
+
+  private save(): void {
+    // Write to a temporary file first so an interrupted run cannot corrupt the cache
+    const tempPath = `${this.filePath}.tmp`;
+    fs.ensureDirSync(path.dirname(this.filePath));
+    fs.writeJsonSync(tempPath, this.data, { spaces: 2 });
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  hashFile(filePath: string): Promise<string> {
+    const absolutePath = path.resolve(filePath);
+    let sha256 = this.fileHashes.get(absolutePath);
+    if (!sha256) {
+      sha256 = sha256File(absolutePath);
+      this.fileHashes.set(absolutePath, sha256);
+    }
+    return sha256;
+  }
+
+  static key(
+    initialZkeyHash: string,
+    ptauHash: string,
+    contributionZkeyHash: string,
+  ): string {
+    return `${initialZkeyHash}:${ptauHash}:${contributionZkeyHash}`;
+  }
+
+  get(key: string): VerificationCacheEntry | undefined {
+    return this.data.verified[key];
+  }
+
+  set(key: string, entry: VerificationCacheEntry): void {
+    this.data.verified[key] = entry;
+    this.save();
+  }
+}
@@ -0,0 +1,219 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { contributionRootFolder } from "./utils";
+import { sha256File } from "./hashing";
+import { readAttestation } from "./attestation";
+import {
+  readZkeyContributions,
+  ZkeyMpcParams,
+  CONTRIBUTION_TYPE_BEACON,
+} from "./zkey";
+
+export interface ChainLinkCheck {
+  success: boolean;
+  errorMessage?: string;
+  // snarkjs contribution hash of the entry this folder added
+  contributionHash?: string;
+}
+
+export interface ContributionFolderInfo {
+  number: string;
+  contributor: string;
+}
+
+export function parseContributionFolder(
+  folderName: string,
+): ContributionFolderInfo | null {
+  const match = folderName.match(/^(\d{4})_(.+)$/);
+  return match ? { number: match[1], contributor: match[2] } : null;
+}
+
+// Number of the contribution that goes on top of folderName, e.g. "0023"
+export function nextContributionNumber(folderName: string): string {
+  return (parseInt(folderName.substring(0, 4), 10) + 1)
+    .toString()
+    .padStart(4, "0");
+}
+
+export function expectedContributionName(folderName: string): string | null {
+  const info = parseContributionFolder(folderName);
+  return info ? `Contribution #${info.number} from ${info.contributor}` : null;
+}
+
+// Compare the zkey SHA-256 against the hash recorded in the folder's attestation.json
+export async function checkAttestationHash(
+  folderName: string,
+  zkeyFile: string,
+): Promise<string | null> {
+  const attestation = readAttestation(folderName);
+  if (!attestation) {
+    return null;
+  }
+
+  const entry = attestation.files.find((file) => file.filename === zkeyFile);
+  if (!entry) {
+    return `Substitution: ${zkeyFile} is not listed in ${folderName}/attestation.json`;
+  }
+
+  const actualHash = await sha256File(
+    path.join(contributionRootFolder, folderName, zkeyFile),
+  );
+  if (actualHash !== entry.hash) {
+    return `Substitution: SHA-256 of ${folderName}/${zkeyFile} (${actualHash}) does not match attestation.json (${entry.hash})`;
+  }
+  return null;
+}
+
+// Compare the contribution hash recorded in attestation.json, if any, with the zkey
+function checkAttestedContributionHash(
+  folderName: string,
+  zkeyFile: string,
+  contributionHash: string,
+): string | null {
+  const entry = readAttestation(folderName)?.files.find(
+    (file) => file.filename === zkeyFile,
+  );
+  if (entry?.contributionHash && entry.contributionHash !== contributionHash) {
+    return `Contribution hash in ${folderName}/attestation.json (${entry.contributionHash}) does not match the zkey (${contributionHash})`;
+  }
+  return null;
+}
+
+// Find where two contribution lists stop agreeing, or -1 if one extends the other
+function findDivergence(
+  previous: ZkeyMpcParams,
+  current: ZkeyMpcParams,
+): number {
+  const common = Math.min(
+    previous.contributions.length,
+    current.contributions.length,
+  );
+  for (let i = 0; i < common; i++) {
+    if (!previous.contributions[i].raw.equals(current.contributions[i].raw)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// The initial zkey must not contain any contribution yet
+export function checkInitialZkey(
+  initialFolder: string,
+  zkeyFile: string,
+): ChainLinkCheck {
+  const params = readZkeyContributions(
+    path.join(contributionRootFolder, initialFolder, zkeyFile),
+  );
+  if (params.contributions.length !== 0) {
+    return {
+      success: false,
+      errorMessage: `Initial zkey already contains ${params.contributions.length} contributions`,
+    };
+  }
+  return { success: true };
+}
+
+// Check that folder's zkey is exactly previousFolder's zkey plus one contribution
+export async function checkChainLink(
+  previousFolder: string,
+  folder: string,
+  zkeyFile: string,
+): Promise<ChainLinkCheck> {
+  const previousPath = path.join(
+    contributionRootFolder,
+    previousFolder,
+    zkeyFile,
+  );
+  const currentPath = path.join(contributionRootFolder, folder, zkeyFile);
+
+  if (!fs.existsSync(previousPath)) {
+    return {
+      success: false,
+      errorMessage: `Missing ${zkeyFile} in previous folder ${previousFolder}`,
+    };
+  }
+
+  const previous = readZkeyContributions(previousPath);
+  const current = readZkeyContributions(currentPath);
+
+  const circuitError = checkSameCircuit(previousFolder, previous, current);
+  if (circuitError) {
+    return { success: false, errorMessage: circuitError };
+  }
+
+  const divergence = findDivergence(previous, current);
+  if (divergence !== -1) {
+    return {
+      success: false,
+      errorMessage: `Fork at contribution #${divergence + 1}: history does not match ${previousFolder}`,
+    };
+  }
+
+  const expectedLength = previous.contributions.length + 1;
+  if (current.contributions.length !== expectedLength) {
+    return {
+      success: false,
+      errorMessage:
+        current.contributions.length <= previous.contributions.length
+          ? `Fork: holds ${current.contributions.length} contributions but ${previousFolder} already holds ${previous.contributions.length}`
+          : `Expected ${expectedLength} contributions on top of ${previousFolder}, found ${current.contributions.length}`,
+    };
+  }
+
+  return checkContributionZkey(folder, zkeyFile, current);
+}
+
+// The zkey must be built for the same circuit as the reference folder's
+export function checkSameCircuit(
+  referenceFolder: string,
+  reference: ZkeyMpcParams,
+  current: ZkeyMpcParams,
+): string | null {
+  return reference.csHash === current.csHash
+    ? null
+    : `Circuit hash differs from ${referenceFolder}: zkey was built for a different circuit`;
+}
+
+// The checks of a contribution folder's zkey that need no other folder: the
+// folder number counts its contributions, the latest one carries the expected
+// name, and the hashes recorded in attestation.json match
+export async function checkContributionZkey(
+  folder: string,
+  zkeyFile: string,
+  current: ZkeyMpcParams,
+): Promise<ChainLinkCheck> {
+  const info = parseContributionFolder(folder);
+  if (info && current.contributions.length !== parseInt(info.number, 10)) {
+    return {
+      success: false,
+      errorMessage: `Folder number ${info.number} does not match the ${current.contributions.length} contributions in the zkey`,
+    };
+  }
+
+  const latest = current.contributions[current.contributions.length - 1];
+
+  // The beacon carries its own name; it is checked by the final-stage verifier
+  if (latest.type !== CONTRIBUTION_TYPE_BEACON) {
+    const expectedName = expectedContributionName(folder);
+    if (latest.name !== expectedName) {
+      return {
+        success: false,
+        errorMessage: `Contribution name "${latest.name ?? ""}" does not match expected "${expectedName}"`,
+        contributionHash: latest.contributionHash,
+      };
+    }
+  }
+
+  const attestationError =
+    (await checkAttestationHash(folder, zkeyFile)) ??
+    checkAttestedContributionHash(folder, zkeyFile, latest.contributionHash);
+  if (attestationError) {
+    return {
+      success: false,
+      errorMessage: attestationError,
+      contributionHash: latest.contributionHash,
+    };
+  }
+
+  return { success: true, contributionHash: latest.contributionHash };
+}
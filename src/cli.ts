@@ -0,0 +1,69 @@
+import * as readlineSync from "readline-sync";
+
+// Value of a "--name value" or "--name=value" command line option
+export function getCliOption(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) {
+      return args[i + 1];
+    }
+    if (args[i].startsWith(`--${name}=`)) {
+      return args[i].slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+export function hasCliFlag(name: string): boolean {
+  return process.argv.slice(2).includes(`--${name}`);
+}
+
+// A prompt was needed, but there is nobody to answer it
+export class InputRequiredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InputRequiredError";
+  }
+}
+
+// --yes: never prompt, and leave out everything that is optional
+export function isUnattended(): boolean {
+  return hasCliFlag("yes");
+}
+
+// Throw instead of blocking on a prompt nobody can answer
+export function ensureCanPrompt(what: string, alternative: string): void {
+  if (isUnattended()) {
+    throw new InputRequiredError(
+      `${what} cannot be asked for with --yes: ${alternative}`,
+    );
+  }
+  if (!process.stdin.isTTY) {
+    throw new InputRequiredError(
+      `${what} cannot be asked for, as stdin is not a terminal: ${alternative}`,
+    );
+  }
+}
+
+// Ask an optional question, or return fallback with --yes. Without a
+// terminal the caller has to opt in to the fallback with --yes.
+export function askOptional<T>(what: string, ask: () => T, fallback: T): T {
+  if (isUnattended()) {
+    return fallback;
+  }
+  ensureCanPrompt(what, "pass --yes to go without it");
+  return ask();
+}
+
+// --user, $GITHUB_USERNAME, or asked for on the terminal
+export function getGithubUsername(): string {
+  const username = getCliOption("user") || process.env.GITHUB_USERNAME;
+  if (username) {
+    return username.trim();
+  }
+  ensureCanPrompt(
+    "Your GitHub username",
+    "pass --user <github-username> or set GITHUB_USERNAME",
+  );
+  return readlineSync.question("Enter your GitHub username: ").trim();
+}
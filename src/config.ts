@@ -0,0 +1,288 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { getCliOption } from "./cli";
+
+// Used when neither --config nor CEREMONY_CONFIG is given
+const DEFAULT_CONFIG_FILE = "ceremony.json";
+
+// Placeholder in finalFolder replaced by the next contribution number
+const FOLDER_NUMBER_PLACEHOLDER = "{number}";
+
+export interface PtauConfig {
+  // File name, both at the storage root and in ./contributions
+  file: string;
+  // Expected SHA-256 of the file; not checked when omitted
+  sha256?: string;
+  // Expected Blake2b-512 of the file, the hash published for the Hermez
+  // ptau files; not checked when omitted
+  blake2b512?: string;
+}
+
+export interface BeaconConfig {
+  // Ethereum block whose hash is applied as the final random beacon
+  blockNumber: string;
+  // Announced hash of that block; the RPC result must match it when set
+  blockHash?: string;
+  // snarkjs numIterationsExp, i.e. 2^iterations hash rounds
+  iterations: number;
+  // How deep the block must be before finalize accepts its hash
+  confirmations: number;
+}
+
+export interface QueueConfig {
+  // How long the head of the queue may take before anyone can expire the turn
+  turnTimeoutMinutes: number;
+  // SHA-256 of the token coordinators set in CEREMONY_COORDINATOR_TOKEN to
+  // skip a turn; nobody can skip one when omitted
+  coordinatorTokenSha256?: string;
+}
+
+export interface CeremonyConfig {
+  ceremonyId: string;
+  // Key prefix of the ceremony folders in storage (the PTAU file sits at the root)
+  storagePrefix: string;
+  ptau: PtauConfig;
+  initialFolder: string;
+  // Circuit names every contribution must contain a zkey for; empty allows any
+  circuits: string[];
+  beacon: BeaconConfig;
+  queue: QueueConfig;
+  // Name of the final folder, e.g. "{number}_final"
+  finalFolder: string;
+  // File listing the GitHub usernames allowed to take part, one per line;
+  // anyone may join when omitted
+  participantsFile?: string;
+  // File mapping GitHub usernames to the keys they sign attestations with,
+  // for keys GitHub does not publish (e.g. Ethereum addresses)
+  allowedSignersFile?: string;
+}
+
+// Command line flags that override single config values
+const CLI_OVERRIDES: Record<
+  string,
+  (config: CeremonyConfig, value: string) => void
+> = {
+  "ceremony-id": (config, value) => (config.ceremonyId = value),
+  "storage-prefix": (config, value) => (config.storagePrefix = value),
+  "ptau-file": (config, value) => (config.ptau.file = value),
+  "ptau-sha256": (config, value) => (config.ptau.sha256 = value),
+  "ptau-blake2b512": (config, value) => (config.ptau.blake2b512 = value),
+  "initial-folder": (config, value) => (config.initialFolder = value),
+  circuits: (config, value) =>
+    (config.circuits = value.split(",").filter(Boolean)),
+  "block-number": (config, value) => (config.beacon.blockNumber = value),
+  "beacon-hash": (config, value) => (config.beacon.blockHash = value),
+  "beacon-iterations": (config, value) =>
+    (config.beacon.iterations = Number(value)),
+  confirmations: (config, value) =>
+    (config.beacon.confirmations = Number(value)),
+  "turn-timeout": (config, value) =>
+    (config.queue.turnTimeoutMinutes = Number(value)),
+  "final-folder": (config, value) => (config.finalFolder = value),
+  "participants-file": (config, value) => (config.participantsFile = value),
+  "allowed-signers-file": (config, value) =>
+    (config.allowedSignersFile = value),
+};
+
+function validateConfig(config: CeremonyConfig): string[] {
+  const errors: string[] = [];
+  const isString = (value: unknown): value is string =>
+    typeof value === "string" && value.length > 0;
+
+  if (!isString(config.ceremonyId)) {
+    errors.push("ceremonyId must be a non-empty string");
+  }
+  if (
+    !isString(config.storagePrefix) ||
+    !/^[A-Za-z0-9._-]+(\/[A-Za-z0-9._-]+)*$/.test(config.storagePrefix)
+  ) {
+    errors.push(
+      'storagePrefix must be a relative key prefix without leading or trailing "/"',
+    );
+  }
+
+  if (!config.ptau || typeof config.ptau !== "object") {
+    errors.push("ptau must be an object");
+  } else {
+    if (
+      !isString(config.ptau.file) ||
+      path.basename(config.ptau.file) !== config.ptau.file ||
+      !config.ptau.file.endsWith(".ptau")
+    ) {
+      errors.push("ptau.file must be a .ptau file name without a directory");
+    }
+    if (
+      config.ptau.sha256 !== undefined &&
+      !/^[0-9a-f]{64}$/.test(config.ptau.sha256)
+    ) {
+      errors.push("ptau.sha256 must be a lowercase hex SHA-256");
+    }
+    if (
+      config.ptau.blake2b512 !== undefined &&
+      !/^[0-9a-f]{128}$/.test(config.ptau.blake2b512)
+    ) {
+      errors.push("ptau.blake2b512 must be a lowercase hex Blake2b-512");
+    }
+  }
+
+  if (
+    !isString(config.initialFolder) ||
+    !/^\d{4}_/.test(config.initialFolder)
+  ) {
+    errors.push('initialFolder must look like "0000_initial"');
+  }
+
+  if (
+    !Array.isArray(config.circuits) ||
+    !config.circuits.every((circuit) => /^[A-Za-z0-9_-]+$/.test(circuit))
+  ) {
+    errors.push("circuits must be a list of circuit names");
+  }
+
+  const beacon = config.beacon;
+  if (!beacon || typeof beacon !== "object") {
+    errors.push("beacon must be an object");
+  } else {
+    if (!/^\d+$/.test(String(beacon.blockNumber))) {
+      errors.push("beacon.blockNumber must be a decimal block number");
+    }
+    if (
+      beacon.blockHash !== undefined &&
+      !/^0x[0-9a-fA-F]{64}$/.test(beacon.blockHash)
+    ) {
+      errors.push("beacon.blockHash must be a 0x-prefixed 32-byte hex");
+    }
+    // The range snarkjs zkey beacon accepts
+    if (
+      !Number.isInteger(beacon.iterations) ||
+      beacon.iterations < 10 ||
+      beacon.iterations > 63
+    ) {
+      errors.push("beacon.iterations must be an integer between 10 and 63");
+    }
+    if (!Number.isInteger(beacon.confirmations) || beacon.confirmations < 0) {
+      errors.push("beacon.confirmations must be a non-negative integer");
+    }
+  }
+
+  if (!config.queue || typeof config.queue !== "object") {
+    errors.push("queue must be an object");
+  } else if (
+    typeof config.queue.turnTimeoutMinutes !== "number" ||
+    !(config.queue.turnTimeoutMinutes > 0)
+  ) {
+    errors.push("queue.turnTimeoutMinutes must be a positive number");
+  }
+  if (
+    config.queue?.coordinatorTokenSha256 !== undefined &&
+    !/^[0-9a-f]{64}$/.test(config.queue.coordinatorTokenSha256)
+  ) {
+    errors.push(
+      "queue.coordinatorTokenSha256 must be a lowercase hex SHA-256 hash",
+    );
+  }
+
+  const finalFolderSample = isString(config.finalFolder)
+    ? config.finalFolder.replace(FOLDER_NUMBER_PLACEHOLDER, "0000")
+    : "";
+  if (!/^\d{4}_[A-Za-z0-9_-]+$/.test(finalFolderSample)) {
+    errors.push('finalFolder must look like "0023_final" or "{number}_final"');
+  }
+
+  if (
+    config.participantsFile !== undefined &&
+    !isString(config.participantsFile)
+  ) {
+    errors.push("participantsFile must be a file path");
+  }
+  if (
+    config.allowedSignersFile !== undefined &&
+    !isString(config.allowedSignersFile)
+  ) {
+    errors.push("allowedSignersFile must be a file path");
+  }
+
+  return errors;
+}
+
+// Load the config file named by --config, CEREMONY_CONFIG or ./ceremony.json,
+// then apply the command line overrides
+export function loadCeremonyConfig(): CeremonyConfig {
+  const configPath =
+    getCliOption("config") ||
+    process.env.CEREMONY_CONFIG ||
+    DEFAULT_CONFIG_FILE;
+
+  if (!fs.existsSync(configPath)) {
+    throw new Error(`Ceremony config not found: ${configPath}`);
+  }
+
+  let config: CeremonyConfig;
+  try {
+    config = fs.readJsonSync(configPath) as CeremonyConfig;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid ceremony config ${configPath}: ${message}`);
+  }
+  config.circuits = config.circuits ?? [];
+  config.ptau = config.ptau ?? ({} as PtauConfig);
+  config.beacon = config.beacon ?? ({} as BeaconConfig);
+  config.queue = config.queue ?? ({} as QueueConfig);
+
+  for (const [flag, apply] of Object.entries(CLI_OVERRIDES)) {
+    const value = getCliOption(flag);
+    if (value !== undefined) {
+      apply(config, value);
+    }
+  }
+  if (config.beacon) {
+    config.beacon.blockNumber = String(config.beacon.blockNumber);
+  }
+
+  const errors = validateConfig(config);
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid ceremony config ${configPath}:\n  - ${errors.join("\n  - ")}`,
+    );
+  }
+  return config;
+}
+
+let configInstance: CeremonyConfig | null = null;
+
+export function getCeremonyConfig(): CeremonyConfig {
+  if (!configInstance) {
+    configInstance = loadCeremonyConfig();
+  }
+  return configInstance;
+}
+
+// Override the loaded config, e.g. to run the flows against a test ceremony
+export function setCeremonyConfig(config: CeremonyConfig): void {
+  configInstance = config;
+}
+
+// Final folder name for a ceremony whose last contribution is lastContributionFolder
+export function getFinalFolderName(lastContributionFolder: string): string {
+  const { finalFolder } = getCeremonyConfig();
+  const lastNumber = parseInt(lastContributionFolder.slice(0, 4), 10);
+  return finalFolder.replace(
+    FOLDER_NUMBER_PLACEHOLDER,
+    String(lastNumber + 1).padStart(4, "0"),
+  );
+}
+
+export function isFinalFolder(folderName: string): boolean {
+  const { finalFolder } = getCeremonyConfig();
+  const [prefix, suffix] = finalFolder.split(FOLDER_NUMBER_PLACEHOLDER);
+  if (suffix === undefined) {
+    return folderName === finalFolder;
+  }
+  return (
+    folderName.startsWith(prefix) &&
+    folderName.endsWith(suffix) &&
+    /^\d{4}$/.test(
+      folderName.slice(prefix.length, folderName.length - suffix.length),
+    )
+  );
+}
@@ -1 +0,0 @@
-export const S3_CONTRIBUTION_DIR = "mainnet-v1";
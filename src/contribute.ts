@@ -1,19 +1,70 @@
 import * as fs from "fs-extra";
-import { execSync } from "child_process";
 import * as readlineSync from "readline-sync";
 import * as path from "path";
-import * as crypto from "crypto";
+import * as os from "os";
 import {
   contributionRootFolder,
-  getContributionFolders,
-  getZkeyFiles,
   downloadLatestContribution,
   ensureInitialSetup,
   uploadToS3,
-  crossCheckFilesWithS3,
+  verifyStorageCopy,
   checkRequiredEnvVars,
-  isAwsCliAvailable,
+  getParentFolder,
+  getSnarkjsVersion,
 } from "./utils";
+import { sha256File } from "./hashing";
+import { writeFolderManifest, IntegrityError } from "./manifest";
+import { TransferError } from "./transfer";
+import {
+  askOptional,
+  getCliOption,
+  getGithubUsername,
+  hasCliFlag,
+  InputRequiredError,
+} from "./cli";
+import {
+  BUNDLE_MANIFEST_FILE,
+  BundleError,
+  getBundleManifestPath,
+  getBundlePath,
+  readBundle,
+  writeBundle,
+} from "./bundle";
+import { TurnLock, TurnConflictError } from "./lock";
+import { ensureHeadOfQueue, completeTurn, QueueError } from "./queue";
+import { getCeremonyConfig } from "./config";
+import { formatContributionHash } from "./zkey";
+import {
+  collectEntropy,
+  deriveZkeyEntropy,
+  getEntropySources,
+  EntropyError,
+  EntropySourceRecord,
+} from "./entropy";
+import {
+  disableCoreDumps,
+  findArtifacts,
+  snapshotArtifacts,
+  wipe,
+} from "./secrets";
+import { ensureRegisteredParticipant, ParticipantError } from "./participants";
+import { contributeZkey, exportVerificationKey, SnarkjsError } from "./snarkjs";
+import {
+  getParentCheckMode,
+  runParentCheck,
+  ParentCheckError,
+  ParentCheckResult,
+} from "./precheck";
+import {
+  Attestation,
+  AttestationSignature,
+  getAttestationPayload,
+  signWithSshKey,
+  signWithGpgKey,
+  ethereumSignature,
+  verifyAttestationSignature,
+  SigningError,
+} from "./attestation";
 
 interface ContributionConfig {
   contributionNumber: string;
@@ -25,106 +76,28 @@ interface ContributionConfig {
 interface ZkeyContribution {
   filename: string;
   hash: string;
+  previousHash: string;
+  contributionHash: string;
 }
 
 interface ContributionResult {
   config: ContributionConfig;
   contributions: ZkeyContribution[];
+  // Contents of receipt.txt
+  receipt: string;
+  // Traces the entropy may have left outside of this process
+  artifacts: string[];
 }
 
-function generateSecureEntropy(): string {
-  return crypto.randomBytes(128).toString("hex");
-}
-
-function generateSystemEntropy(): string {
-  try {
-    const systemEntropy = execSync(
-      "LC_ALL=C tr -dc 'A-F0-9' < /dev/urandom | head -c32",
-      {
-        encoding: "utf8",
-      },
-    );
-    console.log("System entropy added from /dev/urandom");
-    return systemEntropy;
-  } catch (error) {
-    // First fallback using hexdump if available
-    try {
-      const systemEntropy = execSync(
-        "head -c16 /dev/urandom | xxd -p | tr -d '\\n'",
-        {
-          encoding: "utf8",
-        },
-      );
-      console.log("System entropy added using /dev/urandom and xxd");
-      return systemEntropy;
-    } catch (innerError) {
-      console.log("Could not generate system entropy. Skipping.");
-      return "";
-    }
-  }
-}
+const RECEIPT_FILE = "receipt.txt";
 
-function collectAdditionalEntropy(): string {
-  if (
-    readlineSync.keyInYN(
-      "Would you like to add additional entropy by typing random keys?",
-    )
-  ) {
-    const additionalEntropy = readlineSync.question(
-      "Please mash your keyboard randomly (hidden input): ",
-      {
-        hideEchoBack: true,
-      },
-    );
-    console.log("Additional entropy received");
-    return additionalEntropy;
-  }
-  return "";
-}
-
-function setupContribution(): ContributionConfig {
+function setupContribution(
+  githubUsername: string,
+  contributionNumber: string,
+): ContributionConfig {
   // Ensure the contributions folder exists
   fs.ensureDirSync(contributionRootFolder);
 
-  const contributionFolders = getContributionFolders();
-
-  let contributionNumber: string;
-
-  if (contributionFolders.length === 0) {
-    // First contribution case
-    console.log("No contribution folders found locally. Checking S3...");
-    const s3Folder = downloadLatestContribution();
-
-    if (
-      !s3Folder &&
-      !fs.existsSync(path.join(contributionRootFolder, "0000_initial"))
-    ) {
-      throw new Error(
-        "Initial setup folder '0000_initial' not found. Please ensure it exists with the initial circuit files.\n" +
-          "This could be due to:\n" +
-          "1. Missing AWS credentials - check your .env file or AWS CLI configuration\n" +
-          "2. The initial setup hasn't been uploaded to S3 yet\n" +
-          "3. The S3 bucket configuration is incorrect\n" +
-          "Please refer to the README.md troubleshooting section for more information.",
-      );
-    }
-
-    // Get the updated list of folders after potential S3 download
-    const updatedFolders = getContributionFolders();
-    if (updatedFolders.length === 0) {
-      contributionNumber = "0001";
-    } else {
-      const lastFolder = updatedFolders[updatedFolders.length - 1];
-      const lastContribution = parseInt(lastFolder.substring(0, 4));
-      contributionNumber = (lastContribution + 1).toString().padStart(4, "0");
-    }
-  } else {
-    const lastFolder = contributionFolders[contributionFolders.length - 1];
-    const lastContribution = parseInt(lastFolder.substring(0, 4));
-    contributionNumber = (lastContribution + 1).toString().padStart(4, "0");
-  }
-
-  const githubUsername = readlineSync.question("Enter your GitHub username: ");
   const folderName = `${contributionNumber}_${githubUsername}`;
 
   fs.mkdirSync(path.join(contributionRootFolder, folderName), {
@@ -139,15 +112,15 @@ function setupContribution(): ContributionConfig {
   };
 }
 
-function contributeToZkey(
+async function contributeToZkey(
   zkeyFile: string,
-  lastFolder: string,
+  sourceFolder: string,
   config: ContributionConfig,
-  baseEntropy: string,
-): ZkeyContribution {
+  entropy: Buffer,
+): Promise<ZkeyContribution> {
   console.log(`\nProcessing ${zkeyFile}...`);
 
-  const latestZkey = path.join(contributionRootFolder, lastFolder, zkeyFile);
+  const latestZkey = path.join(sourceFolder, zkeyFile);
   const newZkey = path.join(
     contributionRootFolder,
     config.folderName,
@@ -156,23 +129,20 @@ function contributeToZkey(
 
   console.log(`Contributing to ${zkeyFile}...`);
   const contributionName = `Contribution #${config.contributionNumber} from ${config.githubUsername}`;
-
-  const uniqueEntropy = crypto
-    .createHash("sha512")
-    .update(baseEntropy, "utf8")
-    .digest("hex");
-  const command = `echo ${uniqueEntropy} | snarkjs zkey contribute -v ${latestZkey} ${newZkey} --name="${contributionName}"`;
-
-  console.log(
-    `Executing contribution command (not showing entropy for security)...`,
+  const previousHash = await sha256File(latestZkey);
+
+  // The entropy is handed to snarkjs in memory, never on a command line
+  console.log(`Running snarkjs (not showing entropy for security)...`);
+  const { contributionHash } = await contributeZkey(
+    latestZkey,
+    newZkey,
+    contributionName,
+    entropy,
   );
-  execSync(command, { stdio: "inherit" });
 
   const vkeyName = zkeyFile.replace(".zkey", "_verification_key.json");
   const vkey = path.join(contributionRootFolder, config.folderName, vkeyName);
-  execSync(`snarkjs zkey export verificationkey ${newZkey} ${vkey}`, {
-    stdio: "inherit",
-  });
+  await exportVerificationKey(newZkey, vkey);
 
   const transcriptPath = path.join(
     contributionRootFolder,
@@ -181,29 +151,123 @@ function contributeToZkey(
   );
   fs.writeFileSync(
     transcriptPath,
-    `Contribution to ${zkeyFile} by ${config.githubUsername}\nTimestamp: ${config.timestamp}\n`,
+    `Contribution to ${zkeyFile} by ${config.githubUsername}\nTimestamp: ${config.timestamp}\nContribution hash:\n${formatContributionHash(contributionHash, "  ")}\n`,
   );
 
   console.log(`✅ Contribution to ${zkeyFile} complete!`);
 
-  const hash = crypto
-    .createHash("sha256")
-    .update(fs.readFileSync(newZkey))
-    .digest("hex");
+  const hash = await sha256File(newZkey);
 
   return {
     filename: zkeyFile,
     hash,
+    previousHash,
+    contributionHash,
   };
 }
 
+const SIGNATURE_SCHEMES = ["SSH key", "GPG key", "Ethereum key (EIP-191)"];
+
+// Scheme index and key from --sign or $CEREMONY_SIGN, e.g. "ssh=~/.ssh/id_ed25519"
+// or "gpg=alice@example.com". "none" leaves the attestation unsigned, and
+// Ethereum signing needs a wallet, so it is only offered on the terminal.
+function getSigningChoice(): { choice: number; key?: string } | undefined {
+  const spec = getCliOption("sign") || process.env.CEREMONY_SIGN;
+  if (!spec) {
+    return undefined;
+  }
+  if (spec === "none") {
+    return { choice: -1 };
+  }
+  const separator = spec.indexOf("=");
+  const scheme = separator === -1 ? spec : spec.substring(0, separator);
+  const key = separator === -1 ? "" : spec.substring(separator + 1);
+  const choice = ["ssh", "gpg"].indexOf(scheme);
+  if (choice === -1 || !key) {
+    throw new InputRequiredError(
+      `--sign must be ssh=<private key path>, gpg=<key id> or none, got "${spec}"`,
+    );
+  }
+  return { choice, key };
+}
+
+function collectAttestationSignature(
+  attestation: Attestation,
+): AttestationSignature | undefined {
+  const { choice, key } = getSigningChoice() ?? {
+    choice: askOptional(
+      "Signing the attestation",
+      () =>
+        readlineSync.keyInSelect(
+          SIGNATURE_SCHEMES,
+          "Sign your attestation to tie it to your identity?",
+          { cancel: "Skip signing" },
+        ),
+      -1,
+    ),
+  };
+  if (choice === -1) {
+    console.log("Attestation left unsigned");
+    return undefined;
+  }
+
+  const payload = getAttestationPayload(attestation);
+
+  try {
+    let signature: AttestationSignature;
+    if (choice === 0) {
+      const keyPath =
+        key?.replace(/^~(?=\/)/, os.homedir()) ??
+        readlineSync.questionPath("Path to your SSH private key: ", {
+          isFile: true,
+          defaultInput: "~/.ssh/id_ed25519",
+        });
+      signature = signWithSshKey(payload, keyPath);
+    } else if (choice === 1) {
+      const keyId = key ?? readlineSync.question("GPG key ID or email: ");
+      signature = signWithGpgKey(payload, keyId);
+    } else {
+      console.log(
+        "\nSign the following message with personal_sign (EIP-191) in your wallet:\n",
+      );
+      console.log(payload);
+      const address = readlineSync.question("\nEthereum address: ");
+      const signatureHex = readlineSync.question("Signature (0x...): ");
+      signature = ethereumSignature(address.trim(), signatureHex.trim());
+    }
+
+    // Make sure the signature actually verifies before recording it
+    const check = verifyAttestationSignature({ ...attestation, signature });
+    if (!check.valid) {
+      throw new Error(check.errorMessage || "Signature verification failed");
+    }
+
+    console.log(`✅ Attestation signed with ${SIGNATURE_SCHEMES[choice]}`);
+    return signature;
+  } catch (error) {
+    // Only "Skip signing" or --sign none may leave the attestation unsigned
+    const message = error instanceof Error ? error.message : String(error);
+    throw new SigningError(
+      `Could not sign the attestation with ${SIGNATURE_SCHEMES[choice]}: ${message}. Nothing was uploaded; run again, or pass --sign none to contribute unsigned.`,
+    );
+  }
+}
+
+function describeEntropySources(sources: EntropySourceRecord[]): string {
+  return sources
+    .map((record) => `${record.source} (${record.bytes} bytes)`)
+    .join(", ");
+}
+
 function createMetadataFiles(
   config: ContributionConfig,
   contributions: ZkeyContribution[],
+  entropySources: EntropySourceRecord[],
+  parentCheck?: ParentCheckResult,
 ): void {
   fs.writeFileSync(
     path.join(contributionRootFolder, config.folderName, "contribution.txt"),
-    `Contribution by ${config.githubUsername}\nTimestamp: ${config.timestamp}\n\nEntropy was generated using a secure method and has been deleted.`,
+    `Contribution by ${config.githubUsername}\nTimestamp: ${config.timestamp}\nEntropy sources: ${describeEntropySources(entropySources)}\n\nEntropy was generated using a secure method and has been deleted.`,
   );
 
   console.log("\nGenerating attestation file...");
@@ -213,108 +277,339 @@ function createMetadataFiles(
     "attestation.json",
   );
 
-  const attestationData = {
+  const attestationData: Attestation = {
+    ceremonyId: getCeremonyConfig().ceremonyId,
     contributor: config.githubUsername,
     contributionNumber: config.contributionNumber,
     timestamp: config.timestamp,
     files: contributions,
+    snarkjsVersion: getSnarkjsVersion(),
+    entropySources,
   };
+  if (parentCheck) {
+    attestationData.parentCheck = parentCheck;
+  }
+
+  const signature = collectAttestationSignature(attestationData);
+  if (signature) {
+    attestationData.signature = signature;
+  }
 
   fs.writeFileSync(attestationPath, JSON.stringify(attestationData, null, 2));
 
   console.log(`✅ Attestation generated at ${attestationPath}`);
 }
 
-function performContributions(
+// A plain-text summary of the contribution for the contributor to post
+// publicly, so anyone can match it against the zkeys
+function writeReceipt(
+  config: ContributionConfig,
+  contributions: ZkeyContribution[],
+  entropySources: EntropySourceRecord[],
+  parentFolder: string,
+): string {
+  const lines = [
+    `Trusted setup contribution receipt`,
+    ``,
+    `Ceremony: ${getCeremonyConfig().ceremonyId}`,
+    `Contribution #${config.contributionNumber} from ${config.githubUsername}`,
+    `Built on: ${parentFolder}`,
+    `Timestamp: ${config.timestamp}`,
+    `snarkjs: ${getSnarkjsVersion()}`,
+    `Entropy sources: ${describeEntropySources(entropySources)}`,
+  ];
+  for (const contribution of contributions) {
+    lines.push(
+      ``,
+      `${contribution.filename}`,
+      `  Contribution hash:`,
+      formatContributionHash(contribution.contributionHash, "    "),
+      `  SHA-256: ${contribution.hash}`,
+      `  Previous zkey SHA-256: ${contribution.previousHash}`,
+    );
+  }
+  const receipt = lines.join("\n") + "\n";
+
+  fs.writeFileSync(
+    path.join(contributionRootFolder, config.folderName, RECEIPT_FILE),
+    receipt,
+  );
+  return receipt;
+}
+
+function printReceipt(result: ContributionResult): void {
+  console.log(
+    `\n📜 Your receipt, saved as contributions/${result.config.folderName}/${RECEIPT_FILE}. Post it publicly (e.g. a gist or a tweet) so anyone can match it against the zkeys:\n`,
+  );
+  console.log(result.receipt);
+}
+
+// Say what happened to the entropy, without promising more than was checked
+function printSecretsNotice(result: ContributionResult): void {
+  console.log(
+    "\n🔒 Entropy was held in memory only, never written to disk, and wiped from its buffers after use.",
+  );
+  if (result.artifacts.length === 0) {
+    console.log("No temp files were written and swap is off.");
+    return;
+  }
+  console.warn("⚠️ Please check the following:");
+  for (const artifact of result.artifacts) {
+    console.warn(`  - ${artifact}`);
+  }
+}
+
+// sourceFolder is the path of the folder holding the parent zkeys
+async function performContributions(
   config: ContributionConfig,
-  lastFolder: string,
-): ZkeyContribution[] {
-  const zkeyFiles = getZkeyFiles(lastFolder);
+  sourceFolder: string,
+): Promise<{
+  contributions: ZkeyContribution[];
+  entropySources: EntropySourceRecord[];
+}> {
+  const zkeyFiles = fs
+    .readdirSync(sourceFolder)
+    .filter((file) => file.endsWith(".zkey"));
 
   if (zkeyFiles.length === 0) {
-    throw new Error(`No .zkey files found in ${lastFolder}`);
+    throw new Error(`No .zkey files found in ${sourceFolder}`);
   }
 
   console.log(`Found ${zkeyFiles.length} zkey files to contribute to.`);
 
-  const systemEntropy = generateSystemEntropy();
-  const additionalEntropy = collectAdditionalEntropy();
-  const mainEntropy = generateSecureEntropy();
-  const baseEntropy = mainEntropy + additionalEntropy + systemEntropy;
+  const entropy = collectEntropy();
   console.log("Secure entropy generated (not displayed for security)");
 
-  return zkeyFiles.map((zkeyFile) => {
-    const fileSpecificEntropy = baseEntropy + zkeyFile;
-    return contributeToZkey(zkeyFile, lastFolder, config, fileSpecificEntropy);
-  });
+  const contributions: ZkeyContribution[] = [];
+  try {
+    for (const zkeyFile of zkeyFiles) {
+      const zkeyEntropy = deriveZkeyEntropy(entropy.seed, zkeyFile);
+      try {
+        contributions.push(
+          await contributeToZkey(zkeyFile, sourceFolder, config, zkeyEntropy),
+        );
+      } finally {
+        wipe(zkeyEntropy);
+      }
+    }
+  } finally {
+    wipe(entropy.seed);
+  }
+  return { contributions, entropySources: entropy.sources };
 }
 
-function runContributionCeremony(): ContributionResult {
-  const config = setupContribution();
+async function runContributionCeremony(
+  githubUsername: string,
+  contributionNumber: string,
+  sourceFolder: string,
+  parentCheck?: ParentCheckResult,
+): Promise<ContributionResult> {
+  const config = setupContribution(githubUsername, contributionNumber);
+  const snapshot = snapshotArtifacts();
+
+  console.log(`Using source contribution from folder: ${sourceFolder}`);
+
+  const { contributions, entropySources } = await performContributions(
+    config,
+    sourceFolder,
+  );
 
-  // Get folders BEFORE the new one was created
-  const contributionFolders = getContributionFolders().filter(
-    (folder) => folder !== config.folderName,
+  createMetadataFiles(config, contributions, entropySources, parentCheck);
+  const receipt = writeReceipt(
+    config,
+    contributions,
+    entropySources,
+    path.basename(sourceFolder),
   );
 
-  if (contributionFolders.length < 1) {
-    throw new Error("At least the initial folder is required.");
+  // Written last so it covers every file of the contribution
+  await writeFolderManifest(
+    path.join(contributionRootFolder, config.folderName),
+  );
+
+  return {
+    config,
+    contributions,
+    receipt,
+    artifacts: findArtifacts(snapshot),
+  };
+}
+
+// Air-gapped contribution: read the parent zkeys from an input bundle made by
+// "npm run offline:prepare" and write an output bundle for "npm run offline:submit".
+// Neither storage nor the network is touched.
+async function runOfflineContribution(): Promise<void> {
+  const inputDir = getCliOption("bundle");
+  if (!inputDir) {
+    throw new Error(
+      "--offline requires --bundle <dir>, the input bundle created by npm run offline:prepare",
+    );
   }
 
-  const lastFolder = contributionFolders[contributionFolders.length - 1];
-  console.log(`Using source contribution from folder: ${lastFolder}`);
+  getEntropySources();
+  getSigningChoice();
+
+  const input = await readBundle(inputDir, "input");
+  const inputManifestSha256 = await sha256File(getBundleManifestPath(inputDir));
+  console.log(
+    `✅ Input bundle verified: ${input.files.length} files match ${BUNDLE_MANIFEST_FILE}`,
+  );
 
-  const contributions = performContributions(config, lastFolder);
+  const result = await runContributionCeremony(
+    input.contributor,
+    input.contributionNumber,
+    path.join(inputDir, input.folder),
+    input.parentCheck,
+  );
+  const { folderName } = result.config;
+
+  const outputDir =
+    getCliOption("output") || getBundlePath(folderName, "output");
+  const output = await writeBundle(
+    outputDir,
+    path.join(contributionRootFolder, folderName),
+    {
+      kind: "output",
+      ceremonyId: input.ceremonyId,
+      contributor: input.contributor,
+      contributionNumber: input.contributionNumber,
+      parentFolder: input.parentFolder,
+      folder: folderName,
+      inputManifestSha256,
+    },
+  );
 
-  createMetadataFiles(config, contributions);
+  printReceipt(result);
 
-  return { config, contributions };
+  console.log(
+    `\n✅ Output bundle written to ${outputDir} (${output.files.length} files).`,
+  );
+  console.log(
+    "Copy it to your online machine and run: npm run offline:submit -- --bundle <dir>",
+  );
+  printSecretsNotice(result);
 }
 
-function main(): void {
+async function main(): Promise<void> {
+  let lock: TurnLock | undefined;
   try {
+    if (hasCliFlag("no-core-dumps")) {
+      const problems = disableCoreDumps();
+      if (problems.length === 0) {
+        console.log("Core dumps disabled for this process");
+      }
+      for (const problem of problems) {
+        console.warn(`⚠️ Core dumps: ${problem}`);
+      }
+    }
+
+    if (hasCliFlag("offline")) {
+      await runOfflineContribution();
+      return;
+    }
+
     // Check for required environment variables
     checkRequiredEnvVars();
+    const parentCheckMode = getParentCheckMode();
+    // Fail on a mistyped --entropy or --sign before claiming the turn
+    getEntropySources();
+    getSigningChoice();
 
-    // Check if AWS CLI is installed
-    if (!isAwsCliAvailable()) {
-      console.error("❌ Error: AWS CLI is not installed or not in your PATH");
-      console.error(
-        "Please install AWS CLI using: npm install -g aws-cli or pip install awscli",
-      );
-      console.error("For more information, visit: https://aws.amazon.com/cli/");
-      process.exit(1);
-    }
+    const githubUsername = getGithubUsername();
+    ensureRegisteredParticipant(githubUsername);
+
+    // Only the head of the contribution queue may contribute
+    await ensureHeadOfQueue(githubUsername);
+
+    // Claim the turn before downloading anything, so nobody else contributes
+    // on top of the same parent at the same time
+    lock = await TurnLock.claim(githubUsername, await getParentFolder());
+    lock.startRefreshing();
 
     // Ensure we have the initial setup with required files
-    ensureInitialSetup();
+    await ensureInitialSetup();
 
-    // Download the latest contribution from S3 and ensure it has required files
-    const latestFolder = downloadLatestContribution();
+    // Download the latest contribution from storage and ensure it has required files
+    const latestFolder = await downloadLatestContribution();
+    if (!latestFolder) {
+      throw new Error(`Could not download ${lock.parentFolder} from storage`);
+    }
+    if (latestFolder !== lock.parentFolder) {
+      throw new TurnConflictError(
+        `${latestFolder} appeared in storage after the turn was claimed on top of ${lock.parentFolder}. Please try again.`,
+      );
+    }
 
-    // These cross-checks are now handled directly in the functions above
-    // so we don't need to call them explicitly here
+    // Do not waste a contribution on a broken or tampered parent
+    const parentCheck = await runParentCheck(
+      lock.parentFolder,
+      lock.contributor,
+      parentCheckMode,
+    );
 
-    const result = runContributionCeremony();
+    const result = await runContributionCeremony(
+      lock.contributor,
+      lock.contributionNumber,
+      path.join(contributionRootFolder, lock.parentFolder),
+      parentCheck,
+    );
 
     console.log(
       `\nAll contributions complete! Your contributions are in the ${result.config.folderName} folder.`,
     );
 
-    // Upload the new contribution to S3
-    console.log(`\nUploading your contribution to S3...`);
-    uploadToS3(result.config.folderName);
+    // Only upload if nobody else took the turn or extended the chain meanwhile
+    await lock.ensureCanUpload(result.config.folderName);
 
-    // Cross-check the uploaded contribution with S3
+    // Upload the new contribution to storage
+    console.log(`\nUploading your contribution to storage...`);
+    if (!(await uploadToS3(result.config.folderName))) {
+      throw new Error(`Upload of ${result.config.folderName} failed`);
+    }
+
+    // Cross-check the uploaded contribution with storage; the turn is only
+    // handed on once storage holds exactly the local folder
     console.log(`\nVerifying uploaded contribution...`);
-    crossCheckFilesWithS3(result.config.folderName);
+    if (!(await verifyStorageCopy(result.config.folderName))) {
+      throw new Error(
+        `Storage copy of ${result.config.folderName} does not match the local folder`,
+      );
+    }
+
+    await lock.release();
+
+    // Hand the turn to the next contributor in the queue
+    try {
+      await completeTurn(githubUsername);
+    } catch (error) {
+      console.warn(
+        `⚠️ Could not update the contribution queue: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+
+    printReceipt(result);
 
     console.log("\nPlease commit and push this folder to the repository.");
-    console.log(
-      "\n⚠️ IMPORTANT: For security, entropy values were NOT saved anywhere and should now be gone from memory.",
-    );
+    printSecretsNotice(result);
   } catch (error) {
-    console.error("Error during contribution process:", error);
+    await lock?.release();
+    if (
+      error instanceof TurnConflictError ||
+      error instanceof QueueError ||
+      error instanceof BundleError ||
+      error instanceof IntegrityError ||
+      error instanceof TransferError ||
+      error instanceof ParentCheckError ||
+      error instanceof SnarkjsError ||
+      error instanceof EntropyError ||
+      error instanceof SigningError ||
+      error instanceof InputRequiredError ||
+      error instanceof ParticipantError
+    ) {
+      console.error(`\n❌ ${error.message}`);
+    } else {
+      console.error("Error during contribution process:", error);
+    }
     process.exit(1);
   }
 }
@@ -0,0 +1,309 @@
+import * as fs from "fs-extra";
+import * as crypto from "crypto";
+import * as readlineSync from "readline-sync";
+import { askOptional, ensureCanPrompt, getCliOption } from "./cli";
+import { wipe } from "./secrets";
+
+// Sources used when --entropy is not given
+const DEFAULT_SOURCES = "os,urandom,keyboard";
+
+// Bytes read from the OS CSPRNG, /dev/urandom or a hardware RNG device
+const RANDOM_BYTES = 64;
+
+// Each roll of a fair die gives log2(6) ≈ 2.58 bits; 99 rolls give 256 bits
+const MIN_DICE_ROLLS = 50;
+const STRONG_DICE_ROLLS = 99;
+
+// Binds the derived keys to this use, see RFC 5869
+const HKDF_INFO = "trusted-setup-contribution-entropy";
+
+// What a source collected, and how much it is worth on its own
+export interface EntropyOutput {
+  data: Buffer;
+  // Size of the raw input, e.g. the whole file for a file source
+  bytes: number;
+  strong: boolean;
+}
+
+export interface EntropySource {
+  // Recorded in attestation.json
+  name: string;
+  // The material is mixed in, but never shown or stored. Returns null when
+  // the contributor skipped the source.
+  collect(): EntropyOutput | null;
+}
+
+// What a source gave, as recorded in attestation.json; never the value itself
+export interface EntropySourceRecord {
+  source: string;
+  bytes: number;
+  // Whether the source alone is enough for a secure contribution
+  strong: boolean;
+}
+
+export interface CollectedEntropy {
+  // Wiped by the caller once every zkey key is derived
+  seed: Buffer;
+  sources: EntropySourceRecord[];
+}
+
+// Entropy could not be collected as requested, or only from weak sources
+export class EntropyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EntropyError";
+  }
+}
+
+// Builds a source from the part after "=" in --entropy, if any
+type SourceFactory = (argument?: string) => EntropySource;
+
+function readDevice(devicePath: string, length: number): Buffer {
+  const fd = fs.openSync(devicePath, "r");
+  try {
+    const buffer = Buffer.alloc(length);
+    let offset = 0;
+    while (offset < length) {
+      const read = fs.readSync(fd, buffer, offset, length - offset, null);
+      if (read === 0) {
+        throw new EntropyError(
+          `${devicePath} returned ${offset} of ${length} bytes`,
+        );
+      }
+      offset += read;
+    }
+    return buffer;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+// Blake2b-512 of a file, read in chunks so large files are fine
+function hashFileSync(filePath: string): { digest: Buffer; size: number } {
+  const hash = crypto.createHash("blake2b512");
+  const fd = fs.openSync(filePath, "r");
+  const chunk = Buffer.alloc(1 << 20);
+  let size = 0;
+  try {
+    let read: number;
+    while ((read = fs.readSync(fd, chunk, 0, chunk.length, null)) > 0) {
+      hash.update(chunk.subarray(0, read));
+      size += read;
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+  return { digest: hash.digest(), size };
+}
+
+const SOURCES: Record<string, SourceFactory> = {
+  // Node's CSPRNG, seeded by the operating system
+  os: () => ({
+    name: "os",
+    collect: () => ({
+      data: crypto.randomBytes(RANDOM_BYTES),
+      bytes: RANDOM_BYTES,
+      strong: true,
+    }),
+  }),
+
+  // The kernel pool, read directly; skipped where there is no /dev/urandom
+  urandom: () => ({
+    name: "urandom",
+    collect: () => {
+      if (!fs.existsSync("/dev/urandom")) {
+        console.log("No /dev/urandom on this system. Skipping.");
+        return null;
+      }
+      return {
+        data: readDevice("/dev/urandom", RANDOM_BYTES),
+        bytes: RANDOM_BYTES,
+        strong: true,
+      };
+    },
+  }),
+
+  // A hardware RNG, e.g. device=/dev/hwrng; failing to read it is an error
+  device: (devicePath) => {
+    if (!devicePath) {
+      throw new EntropyError("The device source needs a path: device=<path>");
+    }
+    return {
+      name: `device:${devicePath}`,
+      collect: () => {
+        try {
+          return {
+            data: readDevice(devicePath, RANDOM_BYTES),
+            bytes: RANDOM_BYTES,
+            strong: true,
+          };
+        } catch (error) {
+          throw new EntropyError(
+            `Could not read ${RANDOM_BYTES} bytes from ${devicePath}: ${error instanceof Error ? error.message : error}`,
+          );
+        }
+      },
+    };
+  },
+
+  // A file chosen by the contributor; its quality cannot be judged
+  file: (filePath) => {
+    if (!filePath) {
+      throw new EntropyError("The file source needs a path: file=<path>");
+    }
+    return {
+      name: "file",
+      collect: () => {
+        if (!fs.existsSync(filePath)) {
+          throw new EntropyError(`Entropy file ${filePath} not found`);
+        }
+        const { digest, size } = hashFileSync(filePath);
+        if (size === 0) {
+          throw new EntropyError(`Entropy file ${filePath} is empty`);
+        }
+        return { data: digest, bytes: size, strong: false };
+      },
+    };
+  },
+
+  // Keyboard mashing; welcome as an extra, but weak on its own
+  keyboard: () => ({
+    name: "keyboard",
+    collect: () => {
+      const wanted = askOptional(
+        "Keyboard entropy",
+        () =>
+          readlineSync.keyInYN(
+            "Would you like to add additional entropy by typing random keys?",
+          ) === true,
+        false,
+      );
+      if (!wanted) {
+        return null;
+      }
+      const input = readlineSync.question(
+        "Please mash your keyboard randomly (hidden input): ",
+        { hideEchoBack: true },
+      );
+      if (input.length === 0) {
+        return null;
+      }
+      console.log("Additional entropy received");
+      const data = Buffer.from(input, "utf8");
+      return { data, bytes: data.length, strong: false };
+    },
+  }),
+
+  // Physical dice rolls, typed as digits 1-6
+  dice: () => ({
+    name: "dice",
+    collect: () => {
+      ensureCanPrompt("Dice rolls", "remove dice from --entropy");
+      console.log(
+        `\nRoll a die at least ${MIN_DICE_ROLLS} times (${STRONG_DICE_ROLLS} for 256 bits) and type the results, e.g. 3615242...`,
+      );
+      for (;;) {
+        const rolls = readlineSync
+          .question("Dice rolls (hidden input): ", { hideEchoBack: true })
+          .replace(/\s/g, "");
+        if (!/^[1-6]*$/.test(rolls)) {
+          console.log("Only the digits 1 to 6 are allowed. Please try again.");
+        } else if (rolls.length < MIN_DICE_ROLLS) {
+          console.log(
+            `Got ${rolls.length} rolls, at least ${MIN_DICE_ROLLS} are needed. Please try again.`,
+          );
+        } else {
+          console.log(`${rolls.length} dice rolls received`);
+          const data = Buffer.from(rolls, "ascii");
+          return {
+            data,
+            bytes: data.length,
+            strong: rolls.length >= STRONG_DICE_ROLLS,
+          };
+        }
+      }
+    },
+  }),
+};
+
+export const ENTROPY_SOURCE_NAMES = Object.keys(SOURCES);
+
+// Parse --entropy or $CEREMONY_ENTROPY, e.g. "os,urandom,dice,device=/dev/hwrng,file=./noise.bin"
+export function getEntropySources(): EntropySource[] {
+  const spec =
+    getCliOption("entropy") || process.env.CEREMONY_ENTROPY || DEFAULT_SOURCES;
+  return spec
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const separator = entry.indexOf("=");
+      const name = separator === -1 ? entry : entry.substring(0, separator);
+      const argument =
+        separator === -1 ? undefined : entry.substring(separator + 1);
+      const factory = SOURCES[name];
+      if (!factory) {
+        throw new EntropyError(
+          `Unknown entropy source "${name}", expected one of ${ENTROPY_SOURCE_NAMES.join(", ")}`,
+        );
+      }
+      return factory(argument);
+    });
+}
+
+// Collect every configured source and mix them with HKDF-SHA-512. Refuses
+// when no source that is strong on its own contributed.
+export function collectEntropy(): CollectedEntropy {
+  const sources = getEntropySources();
+  const records: EntropySourceRecord[] = [];
+  const material: Buffer[] = [];
+  const sourceData: Buffer[] = [];
+
+  try {
+    for (const source of sources) {
+      const output = source.collect();
+      if (!output) {
+        continue;
+      }
+      sourceData.push(output.data);
+      // Length-prefix every value, so different splits cannot mix to the same seed
+      const name = Buffer.from(source.name, "utf8");
+      const header = Buffer.alloc(8);
+      header.writeUInt32BE(name.length, 0);
+      header.writeUInt32BE(output.data.length, 4);
+      material.push(header, name, output.data);
+      records.push({
+        source: source.name,
+        bytes: output.bytes,
+        strong: output.strong,
+      });
+    }
+
+    if (!records.some((record) => record.strong)) {
+      const used = records.map((record) => record.source).join(", ") || "none";
+      throw new EntropyError(
+        `Refusing to contribute with weak entropy only (sources: ${used}). Add os, urandom, device=<path> or at least ${STRONG_DICE_ROLLS} dice rolls to --entropy.`,
+      );
+    }
+
+    const input = Buffer.concat(material);
+    const seed = Buffer.from(
+      crypto.hkdfSync("sha512", input, Buffer.alloc(0), HKDF_INFO, 64),
+    );
+    wipe(input);
+    console.log(
+      `Entropy mixed from ${records.map((record) => `${record.source} (${record.bytes} bytes)`).join(", ")}`,
+    );
+    return { seed, sources: records };
+  } finally {
+    wipe(...sourceData);
+  }
+}
+
+// A separate key for every zkey, so no two circuits share their randomness.
+// The caller wipes it once used.
+export function deriveZkeyEntropy(seed: Buffer, zkeyFile: string): Buffer {
+  return Buffer.from(
+    crypto.hkdfSync("sha512", seed, Buffer.alloc(0), `zkey:${zkeyFile}`, 64),
+  );
+}
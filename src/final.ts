@@ -0,0 +1,228 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { isDeepStrictEqual } from "util";
+import { contributionRootFolder } from "./utils";
+import { sha256File } from "./hashing";
+import { AttestationFile } from "./attestation";
+import { checkChainLink, ChainLinkCheck } from "./chain";
+import { readZkeyContributions, CONTRIBUTION_TYPE_BEACON } from "./zkey";
+import { getCeremonyConfig } from "./config";
+import { BeaconSource, checkKnownBeaconHash } from "./beacon";
+import { exportVerificationKey } from "./snarkjs";
+
+export const BEACON_METADATA_FILE = "BeaconRandomnessMetadata.json";
+export const FINAL_ATTESTATION_FILE = "FinalAttestationFile.md";
+
+export interface BeaconMetadata {
+  // Absent in metadata written before ceremonies were configurable
+  ceremonyId?: string;
+  blockNumber: string;
+  blockHash: string;
+  iterations: number;
+  timestamp: string;
+  // Absent in metadata written before the hash was fetched over JSON-RPC
+  source?: BeaconSource;
+}
+
+// Everything the final folder declares about the beacon and the final zkeys
+export interface FinalArtifacts {
+  metadata: BeaconMetadata;
+  files: AttestationFile[];
+}
+
+// Name finalize passes to `snarkjs zkey beacon`
+export function beaconContributionName(blockNumber: string): string {
+  return `Final Beacon from Ethereum block #${blockNumber}`;
+}
+
+export function getVerificationKeyFile(zkeyFile: string): string {
+  return `${path.basename(zkeyFile, ".zkey")}_verification_key.json`;
+}
+
+function normalizeHash(hash: string): string {
+  return hash.replace(/^0x/, "").toLowerCase();
+}
+
+// Pull a "- **Label**: value" line out of FinalAttestationFile.md
+function readAttestationField(content: string, label: string): string | null {
+  const escaped = label.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const match = content.match(
+    new RegExp(`^- \\*\\*${escaped}\\*\\*: (.+)$`, "m"),
+  );
+  return match ? match[1].trim() : null;
+}
+
+// Parse and cross-check BeaconRandomnessMetadata.json and FinalAttestationFile.md
+export function readFinalArtifacts(finalFolder: string): FinalArtifacts {
+  const folderPath = path.join(contributionRootFolder, finalFolder);
+  const metadataPath = path.join(folderPath, BEACON_METADATA_FILE);
+  const attestationPath = path.join(folderPath, FINAL_ATTESTATION_FILE);
+
+  if (!fs.existsSync(metadataPath)) {
+    throw new Error(`Missing ${BEACON_METADATA_FILE} in ${finalFolder}`);
+  }
+  if (!fs.existsSync(attestationPath)) {
+    throw new Error(`Missing ${FINAL_ATTESTATION_FILE} in ${finalFolder}`);
+  }
+
+  const metadata = fs.readJsonSync(metadataPath) as BeaconMetadata;
+
+  // The metadata must describe the beacon the ceremony announced
+  const { ceremonyId, beacon } = getCeremonyConfig();
+  if (metadata.ceremonyId && metadata.ceremonyId !== ceremonyId) {
+    throw new Error(
+      `${BEACON_METADATA_FILE} belongs to ceremony ${metadata.ceremonyId}, not ${ceremonyId}`,
+    );
+  }
+  if (String(metadata.blockNumber) !== beacon.blockNumber) {
+    throw new Error(
+      `${BEACON_METADATA_FILE} declares block #${metadata.blockNumber}, expected #${beacon.blockNumber}`,
+    );
+  }
+  const knownHashError = checkKnownBeaconHash(String(metadata.blockHash));
+  if (knownHashError) {
+    throw new Error(`${BEACON_METADATA_FILE}: ${knownHashError}`);
+  }
+  // The recorded RPC response must be the one the hash was taken from
+  if (metadata.source) {
+    const block = (metadata.source.response as { result?: { hash?: string } })
+      ?.result;
+    if (
+      !block?.hash ||
+      normalizeHash(block.hash) !== normalizeHash(metadata.blockHash)
+    ) {
+      throw new Error(
+        `${BEACON_METADATA_FILE} block hash does not match the recorded RPC response`,
+      );
+    }
+  }
+  if (metadata.iterations !== beacon.iterations) {
+    throw new Error(
+      `${BEACON_METADATA_FILE} declares ${metadata.iterations} beacon iterations, expected ${beacon.iterations}`,
+    );
+  }
+
+  const content = fs.readFileSync(attestationPath, "utf8");
+  const declared: Record<string, string | number> = {
+    "Ethereum Block Number": metadata.blockNumber,
+    "Ethereum Block Hash": metadata.blockHash,
+    "Beacon Iterations": metadata.iterations,
+  };
+  for (const [label, expected] of Object.entries(declared)) {
+    const value = readAttestationField(content, label);
+    if (value !== String(expected)) {
+      throw new Error(
+        `${FINAL_ATTESTATION_FILE} lists ${label} as ${value ?? "(missing)"}, but ${BEACON_METADATA_FILE} has ${expected}`,
+      );
+    }
+  }
+
+  // "- **circuit.zkey**: `sha256`" lines
+  const files = [
+    ...content.matchAll(/^- \*\*(.+\.zkey)\*\*: `([0-9a-f]{64})`$/gm),
+  ].map((match) => ({ filename: match[1], hash: match[2] }));
+  if (files.length === 0) {
+    throw new Error(`${FINAL_ATTESTATION_FILE} does not list any zkey hashes`);
+  }
+  for (const file of files) {
+    if (!fs.existsSync(path.join(folderPath, file.filename))) {
+      throw new Error(
+        `${FINAL_ATTESTATION_FILE} lists ${file.filename}, which is missing from ${finalFolder}`,
+      );
+    }
+  }
+
+  return { metadata, files };
+}
+
+// Export the verification key from the zkey and compare it with the published one
+async function checkVerificationKey(
+  finalFolder: string,
+  zkeyFile: string,
+): Promise<string | null> {
+  const folderPath = path.join(contributionRootFolder, finalFolder);
+  const vkeyFile = getVerificationKeyFile(zkeyFile);
+  const vkeyPath = path.join(folderPath, vkeyFile);
+
+  if (!fs.existsSync(vkeyPath)) {
+    return `Missing ${vkeyFile} in ${finalFolder}`;
+  }
+
+  const exported = await exportVerificationKey(
+    path.join(folderPath, zkeyFile),
+    undefined,
+    { onLog: () => {} },
+  );
+  if (!isDeepStrictEqual(exported, fs.readJsonSync(vkeyPath))) {
+    return `${vkeyFile} does not match the verification key exported from ${zkeyFile}`;
+  }
+  return null;
+}
+
+// Check a final zkey is the last human contribution plus the declared beacon
+export async function checkFinalZkey(
+  lastContributionFolder: string,
+  finalFolder: string,
+  zkeyFile: string,
+  artifacts: FinalArtifacts,
+): Promise<ChainLinkCheck> {
+  const link = await checkChainLink(
+    lastContributionFolder,
+    finalFolder,
+    zkeyFile,
+  );
+  if (!link.success) {
+    return link;
+  }
+
+  const { contributions } = readZkeyContributions(
+    path.join(contributionRootFolder, finalFolder, zkeyFile),
+  );
+  const beacon = contributions[contributions.length - 1];
+  const fail = (errorMessage: string): ChainLinkCheck => ({
+    success: false,
+    errorMessage,
+    contributionHash: beacon.contributionHash,
+  });
+
+  const { metadata, files } = artifacts;
+  if (beacon.type !== CONTRIBUTION_TYPE_BEACON) {
+    return fail("Last contribution is not a beacon contribution");
+  }
+  if (beacon.beaconHash !== normalizeHash(metadata.blockHash)) {
+    return fail(
+      `Beacon hash ${beacon.beaconHash} does not match block hash ${metadata.blockHash}`,
+    );
+  }
+  if (beacon.numIterationsExp !== metadata.iterations) {
+    return fail(
+      `Beacon used 2^${beacon.numIterationsExp} iterations, metadata declares 2^${metadata.iterations}`,
+    );
+  }
+  const expectedName = beaconContributionName(metadata.blockNumber);
+  if (beacon.name !== expectedName) {
+    return fail(
+      `Beacon name "${beacon.name ?? ""}" does not match expected "${expectedName}"`,
+    );
+  }
+
+  const entry = files.find((file) => file.filename === zkeyFile);
+  if (!entry) {
+    return fail(`${zkeyFile} is not listed in ${FINAL_ATTESTATION_FILE}`);
+  }
+  const actualHash = await sha256File(
+    path.join(contributionRootFolder, finalFolder, zkeyFile),
+  );
+  if (actualHash !== entry.hash) {
+    return fail(
+      `SHA-256 of ${zkeyFile} (${actualHash}) does not match ${FINAL_ATTESTATION_FILE} (${entry.hash})`,
+    );
+  }
+
+  const vkeyError = await checkVerificationKey(finalFolder, zkeyFile);
+  if (vkeyError) {
+    return fail(vkeyError);
+  }
+
+  return { success: true, contributionHash: beacon.contributionHash };
+}
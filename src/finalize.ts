@@ -1,6 +1,5 @@
 import * as fs from "fs-extra";
 import * as path from "path";
-import { execSync } from "child_process";
 import {
   contributionRootFolder,
   downloadLatestContribution,
@@ -11,42 +10,78 @@ import {
   checkRequiredEnvVars,
   getContributionFolders,
   ensureInitialSetup,
-  crossCheckFilesWithS3,
+  verifyStorageCopy,
   ensureR1csFiles,
+  getMissingCircuits,
 } from "./utils";
+import { getCeremonyConfig, getFinalFolderName, isFinalFolder } from "./config";
+import {
+  BEACON_METADATA_FILE,
+  FINAL_ATTESTATION_FILE,
+  BeaconMetadata,
+  beaconContributionName,
+  getVerificationKeyFile,
+} from "./final";
+import {
+  BeaconBlock,
+  fetchBeaconBlock,
+  checkKnownBeaconHash,
+  getRpcUrl,
+} from "./beacon";
+import { sha256File } from "./hashing";
+import { writeFolderManifest } from "./manifest";
+import {
+  beaconZkey,
+  verifyZkeyFromR1cs,
+  exportVerificationKey,
+} from "./snarkjs";
 
-const BEACON_HASH =
-  "0x81d94f995b977ba0ecff48f8a6687aeb90025f4142743d7135bcf9751195541d";
-const BLOCK_NUMBER = "22038000";
-const BEACON_ITERATIONS = 10; // Number of iterations for the beacon process
-const FINAL_FOLDER_NAME = "0023_final";
+function getFinalFolderPath(finalFolder: string): string {
+  return path.join(contributionRootFolder, finalFolder);
+}
 
-function executeCommand(command: string): void {
-  try {
-    console.log(`Executing: ${command}`);
-    execSync(command, { stdio: "inherit" });
-  } catch (error) {
-    console.error(`Error executing command: ${command}`);
-    throw error;
+// Take the beacon hash from the configured Ethereum JSON-RPC endpoint
+async function getBeaconBlock(): Promise<BeaconBlock> {
+  const rpcUrl = getRpcUrl();
+  if (!rpcUrl) {
+    throw new Error(
+      "No Ethereum RPC endpoint configured. Set ETH_RPC_URL or pass --rpc-url.",
+    );
   }
-}
 
-function getFinalFolderPath(): string {
-  return path.join(contributionRootFolder, FINAL_FOLDER_NAME);
+  const { blockNumber, confirmations } = getCeremonyConfig().beacon;
+  console.log(
+    `\n🔗 Fetching Ethereum block #${blockNumber} (at least ${confirmations} confirmations required)...`,
+  );
+  const beacon = await fetchBeaconBlock(rpcUrl, blockNumber, confirmations);
+
+  const knownHashError = checkKnownBeaconHash(beacon.blockHash);
+  if (knownHashError) {
+    throw new Error(knownHashError);
+  }
+
+  console.log(
+    `✅ Block hash ${beacon.blockHash} from ${beacon.source.endpoint} (${beacon.source.confirmations} confirmations)`,
+  );
+  return beacon;
 }
 
-function applyRandomBeacon(lastContributionFolder: string): void {
+async function applyRandomBeacon(
+  lastContributionFolder: string,
+  finalFolder: string,
+  beacon: BeaconBlock,
+): Promise<void> {
   console.log(
-    `\n🔶 Applying random beacon from Ethereum block #${BLOCK_NUMBER}...`,
+    `\n🔶 Applying random beacon from Ethereum block #${beacon.blockNumber}...`,
   );
-  console.log(`Block hash: ${BEACON_HASH}`);
+  console.log(`Block hash: ${beacon.blockHash}`);
 
-  const finalFolderPath = getFinalFolderPath();
+  const finalFolderPath = getFinalFolderPath(finalFolder);
   const lastFolderPath = path.join(
     contributionRootFolder,
     lastContributionFolder,
   );
-  const r1csFolderPath = ensureR1csFiles();
+  const r1csFolderPath = await ensureR1csFiles();
 
   // Get the zkey files from the last contribution
   const zkeyFiles = getZkeyFiles(lastContributionFolder);
@@ -57,19 +92,31 @@ function applyRandomBeacon(lastContributionFolder: string): void {
     );
   }
 
+  const missingCircuits = getMissingCircuits(lastContributionFolder);
+  if (missingCircuits.length > 0) {
+    throw new Error(
+      `The last contribution folder ${lastContributionFolder} is missing zkeys for: ${missingCircuits.join(", ")}`,
+    );
+  }
+
   // Process each zkey file
   for (const zkeyFile of zkeyFiles) {
     const lastZkeyPath = path.join(lastFolderPath, zkeyFile);
     const finalZkeyPath = path.join(finalFolderPath, zkeyFile);
 
     // Format the beacon hash without the '0x' prefix for snarkjs
-    const beaconHashNoPrefix = BEACON_HASH.startsWith("0x")
-      ? BEACON_HASH.substring(2)
-      : BEACON_HASH;
+    const beaconHashNoPrefix = beacon.blockHash.startsWith("0x")
+      ? beacon.blockHash.substring(2)
+      : beacon.blockHash;
 
     // Apply the beacon to generate the final zkey
-    const beaconCommand = `snarkjs zkey beacon ${lastZkeyPath} ${finalZkeyPath} ${beaconHashNoPrefix} ${BEACON_ITERATIONS} -n="Final Beacon from Ethereum block #${BLOCK_NUMBER}"`;
-    executeCommand(beaconCommand);
+    await beaconZkey(
+      lastZkeyPath,
+      finalZkeyPath,
+      beaconContributionName(beacon.blockNumber),
+      beaconHashNoPrefix,
+      getCeremonyConfig().beacon.iterations,
+    );
 
     // Extract circuit name from zkey filename
     const circuitName = path.basename(zkeyFile, ".zkey");
@@ -111,21 +158,23 @@ function applyRandomBeacon(lastContributionFolder: string): void {
     console.log(`Using r1cs file: ${r1csFile} for zkey: ${zkeyFile}`);
 
     // Get the ptau file path
-    const ptauFilePath = ensurePtauFile();
+    const ptauFilePath = await ensurePtauFile();
 
     // Verify the final zkey
     console.log(`\n🔶 Verifying the final zkey file...`);
-    const verifyCommand = `snarkjs zkey verify ${r1csFilePath} ${ptauFilePath} ${finalZkeyPath}`;
-    executeCommand(verifyCommand);
+    if (
+      !(await verifyZkeyFromR1cs(r1csFilePath, ptauFilePath, finalZkeyPath))
+    ) {
+      throw new Error(`${finalZkeyPath} failed snarkjs zkey verify`);
+    }
 
     // Export verification key
     console.log(`\n🔶 Exporting verification key...`);
     const vkeyPath = path.join(
       finalFolderPath,
-      `${path.basename(zkeyFile, ".zkey")}_verification_key.json`,
+      getVerificationKeyFile(zkeyFile),
     );
-    const exportCommand = `snarkjs zkey export verificationkey ${finalZkeyPath} ${vkeyPath}`;
-    executeCommand(exportCommand);
+    await exportVerificationKey(finalZkeyPath, vkeyPath);
 
     console.log(
       `\n✅ Successfully generated and verified final zkey file: ${finalZkeyPath}`,
@@ -134,29 +183,36 @@ function applyRandomBeacon(lastContributionFolder: string): void {
   }
 }
 
-function createBeaconMetadataFile(timestamp: string): void {
-  const finalFolderPath = getFinalFolderPath();
-  const metadataPath = path.join(
-    finalFolderPath,
-    "BeaconRandomnessMetadata.json",
-  );
-
-  const metadata = {
-    blockNumber: BLOCK_NUMBER,
-    blockHash: BEACON_HASH,
-    iterations: BEACON_ITERATIONS,
+function createBeaconMetadataFile(
+  finalFolder: string,
+  timestamp: string,
+  beacon: BeaconBlock,
+): void {
+  const finalFolderPath = getFinalFolderPath(finalFolder);
+  const metadataPath = path.join(finalFolderPath, BEACON_METADATA_FILE);
+
+  const metadata: BeaconMetadata = {
+    ceremonyId: getCeremonyConfig().ceremonyId,
+    blockNumber: beacon.blockNumber,
+    blockHash: beacon.blockHash,
+    iterations: getCeremonyConfig().beacon.iterations,
     timestamp: timestamp,
+    source: beacon.source,
   };
 
   fs.writeJsonSync(metadataPath, metadata, { spaces: 2 });
   console.log(`✅ Beacon metadata written to: ${metadataPath}`);
 }
 
-function createAttestationFile(timestamp: string): void {
+async function createAttestationFile(
+  finalFolder: string,
+  timestamp: string,
+  beacon: BeaconBlock,
+): Promise<void> {
   console.log(`\n🔶 Creating attestation file with contribution hashes...`);
 
-  const finalFolderPath = getFinalFolderPath();
-  const attestationPath = path.join(finalFolderPath, "FinalAttestationFile.md");
+  const finalFolderPath = getFinalFolderPath(finalFolder);
+  const attestationPath = path.join(finalFolderPath, FINAL_ATTESTATION_FILE);
 
   // Get all zkey files in the final folder
   const zkeyFiles = fs
@@ -164,22 +220,14 @@ function createAttestationFile(timestamp: string): void {
     .filter((file) => file.endsWith(".zkey"));
 
   if (zkeyFiles.length === 0) {
-    throw new Error(
-      `No zkey files found in the final folder: ${FINAL_FOLDER_NAME}`,
-    );
+    throw new Error(`No zkey files found in the final folder: ${finalFolder}`);
   }
 
   // Calculate SHA256 hashes for each zkey file
   const fileHashes: { filename: string; hash: string }[] = [];
 
   for (const zkeyFile of zkeyFiles) {
-    const filePath = path.join(finalFolderPath, zkeyFile);
-    // Use openssl to calculate SHA256 hash
-    const hashCommand = `openssl dgst -sha256 ${filePath}`;
-    const result = execSync(hashCommand, { encoding: "utf8" });
-
-    // Extract hash from result (format: "SHA256(filepath)= hash")
-    const hash = result.trim().split("= ")[1];
+    const hash = await sha256File(path.join(finalFolderPath, zkeyFile));
     fileHashes.push({ filename: zkeyFile, hash });
   }
 
@@ -189,9 +237,9 @@ function createAttestationFile(timestamp: string): void {
 ## Ceremony Information
 
 - **Finalization Date**: ${timestamp}
-- **Ethereum Block Number**: ${BLOCK_NUMBER}
-- **Ethereum Block Hash**: ${BEACON_HASH}
-- **Beacon Iterations**: ${BEACON_ITERATIONS}
+- **Ethereum Block Number**: ${beacon.blockNumber}
+- **Ethereum Block Hash**: ${beacon.blockHash}
+- **Beacon Iterations**: ${getCeremonyConfig().beacon.iterations}
 
 ## Final Contribution File Hashes
 
@@ -207,7 +255,7 @@ The verification keys have been exported and are available in the same folder.
 ## Attestation
 
 This attestation file was automatically generated as part of the Trusted Setup Ceremony finalization process.
-The ceremony was finalized by applying a random beacon from Ethereum block #${BLOCK_NUMBER}.
+The ceremony was finalized by applying a random beacon from Ethereum block #${beacon.blockNumber}.
 `;
 
   // Write attestation file
@@ -215,22 +263,23 @@ The ceremony was finalized by applying a random beacon from Ethereum block #${BL
   console.log(`✅ Attestation file with hashes written to: ${attestationPath}`);
 }
 
-function main(): void {
+async function main(): Promise<void> {
   try {
     console.log("🚀 Starting finalization of the trusted setup ceremony...");
     checkRequiredEnvVars();
+    console.log(`Ceremony: ${getCeremonyConfig().ceremonyId}`);
 
-    // Ensure the final folder exists
-    fs.ensureDirSync(getFinalFolderPath());
+    // Resolve the beacon first so a bad block fails before any heavy work
+    const beacon = await getBeaconBlock();
 
     // Ensure the initial setup is available
     console.log(`\n📥 Ensuring initial setup is available...`);
-    ensureInitialSetup();
-    ensureR1csFiles();
+    await ensureInitialSetup();
+    await ensureR1csFiles();
 
     // Download the latest contribution if needed
     console.log("\n📥 Checking for latest contribution...");
-    let latestFolder = downloadLatestContribution();
+    let latestFolder = await downloadLatestContribution();
 
     if (!latestFolder) {
       const existingFolders = getContributionFolders();
@@ -243,32 +292,43 @@ function main(): void {
       latestFolder = existingFolders[existingFolders.length - 1];
     }
 
+    if (isFinalFolder(latestFolder)) {
+      throw new Error(`The ceremony is already finalized in ${latestFolder}`);
+    }
     console.log(`📋 Using latest contribution: ${latestFolder}`);
 
+    // Ensure the final folder exists
+    const finalFolder = getFinalFolderName(latestFolder);
+    fs.ensureDirSync(getFinalFolderPath(finalFolder));
+
     // Apply the random beacon
-    applyRandomBeacon(latestFolder);
+    await applyRandomBeacon(latestFolder, finalFolder, beacon);
 
     // Create attestation and metadata files
     const timestamp = new Date().toISOString();
-    createAttestationFile(timestamp);
-    createBeaconMetadataFile(timestamp);
-
-    // Upload the final contribution to S3
-    console.log("\n📤 Uploading final contribution to S3...");
-    const uploaded = uploadToS3(FINAL_FOLDER_NAME);
-
-    if (uploaded) {
-      console.log("🎉 Final contribution successfully uploaded to S3.");
+    await createAttestationFile(finalFolder, timestamp, beacon);
+    createBeaconMetadataFile(finalFolder, timestamp, beacon);
+    await writeFolderManifest(getFinalFolderPath(finalFolder));
+
+    // Upload the final contribution to storage
+    console.log("\n📤 Uploading final contribution to storage...");
+    if (!(await uploadToS3(finalFolder))) {
+      throw new Error(`Upload of ${finalFolder} failed`);
+    }
+    console.log("🎉 Final contribution successfully uploaded to storage.");
 
-      // Perform a final cross-check to ensure everything is in sync
-      console.log("\n🔍 Performing final verification of files...");
-      crossCheckFilesWithS3(FINAL_FOLDER_NAME);
-    } else {
-      console.warn("⚠️ Upload to S3 failed or was skipped.");
+    // Perform a final cross-check to ensure everything is in sync
+    console.log("\n🔍 Performing final verification of files...");
+    if (!(await verifyStorageCopy(finalFolder))) {
+      throw new Error(
+        `Storage copy of ${finalFolder} does not match the local folder`,
+      );
     }
 
     console.log("\n🎉 Trusted Setup Ceremony has been successfully finalized!");
-    console.log(`Final contribution is available in: ${getFinalFolderPath()}`);
+    console.log(
+      `Final contribution is available in: ${getFinalFolderPath(finalFolder)}`,
+    );
   } catch (error) {
     console.error(`\n❌ Error finalizing the ceremony: ${error}`);
     process.exit(1);
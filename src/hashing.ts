@@ -0,0 +1,56 @@
+import * as fs from "fs-extra";
+import * as crypto from "crypto";
+
+export type HashAlgorithm = "sha256" | "blake2b512";
+
+// Every supported algorithm; blake2b512 is the hash snarkjs prints
+export const HASH_ALGORITHMS: HashAlgorithm[] = ["sha256", "blake2b512"];
+
+export interface FileDigests {
+  size: number;
+  sha256: string;
+  blake2b512: string;
+}
+
+// Hash a file with the given algorithms in a single pass. The file is
+// streamed, so multi-hundred-MB zkeys are never loaded into memory.
+function hashStream<A extends HashAlgorithm>(
+  filePath: string,
+  algorithms: A[],
+): Promise<{ size: number } & Record<A, string>> {
+  return new Promise((resolve, reject) => {
+    const hashes = algorithms.map((algorithm) => crypto.createHash(algorithm));
+    let size = 0;
+    fs.createReadStream(filePath)
+      .on("data", (chunk) => {
+        size += chunk.length;
+        hashes.forEach((hash) => hash.update(chunk));
+      })
+      .on("error", reject)
+      .on("end", () => {
+        const digests = Object.fromEntries(
+          algorithms.map((algorithm, i) => [
+            algorithm,
+            hashes[i].digest("hex"),
+          ]),
+        ) as Record<A, string>;
+        resolve({ size, ...digests });
+      });
+  });
+}
+
+export function hashFile(filePath: string): Promise<FileDigests> {
+  return hashStream(filePath, HASH_ALGORITHMS);
+}
+
+// Hash a file with only the given algorithms, in a single pass
+export function hashFileWith<A extends HashAlgorithm>(
+  filePath: string,
+  algorithms: A[],
+): Promise<{ size: number } & Record<A, string>> {
+  return hashStream(filePath, algorithms);
+}
+
+export async function sha256File(filePath: string): Promise<string> {
+  return (await hashStream(filePath, ["sha256"])).sha256;
+}
@@ -0,0 +1,232 @@
+import * as crypto from "crypto";
+import { getStorage, StorageConflictError } from "./storage";
+import { asCoordinationKey, listStorageContributionFolders } from "./utils";
+import { nextContributionNumber } from "./chain";
+
+const TURN_LOCK_FILE = "turn-lock.json";
+// A lease that is not refreshed for this long is considered abandoned
+const LEASE_TTL_MS = 30 * 60 * 1000;
+const LEASE_REFRESH_MS = 5 * 60 * 1000;
+
+// Content of the turn lock object in storage
+export interface TurnLease {
+  leaseId: string;
+  contributor: string;
+  contributionNumber: string;
+  // Latest folder in storage when the turn was claimed
+  parentFolder: string;
+  claimedAt: string;
+  expiresAt: string;
+  releasedAt?: string;
+}
+
+// Someone else holds the turn, or the ceremony moved on while we contributed
+export class TurnConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TurnConflictError";
+  }
+}
+
+export function isLeaseActive(lease: TurnLease): boolean {
+  return !lease.releasedAt && Date.parse(lease.expiresAt) > Date.now();
+}
+
+export async function readTurnLease(): Promise<TurnLease | null> {
+  const current = await getStorage().readText(
+    asCoordinationKey(TURN_LOCK_FILE),
+  );
+  return current ? (JSON.parse(current.content) as TurnLease) : null;
+}
+
+// Exclusive right to add the next contribution on top of parentFolder. Every
+// write is conditional on the version we last saw, so two contributors can
+// never both believe they hold the turn.
+export class TurnLock {
+  private refreshTimer?: NodeJS.Timeout;
+  private pendingRefresh: Promise<void> = Promise.resolve();
+  private lostError?: TurnConflictError;
+  private released = false;
+
+  private constructor(
+    private lease: TurnLease,
+    private etag: string,
+  ) {}
+
+  get contributor(): string {
+    return this.lease.contributor;
+  }
+
+  get contributionNumber(): string {
+    return this.lease.contributionNumber;
+  }
+
+  get parentFolder(): string {
+    return this.lease.parentFolder;
+  }
+
+  static async claim(
+    contributor: string,
+    parentFolder: string,
+  ): Promise<TurnLock> {
+    const storage = getStorage();
+    const key = asCoordinationKey(TURN_LOCK_FILE);
+    const current = await storage.readText(key);
+
+    if (current) {
+      const held = JSON.parse(current.content) as TurnLease;
+      if (isLeaseActive(held)) {
+        throw new TurnConflictError(
+          `${held.contributor} is currently contributing #${held.contributionNumber} on top of ${held.parentFolder} (lease expires ${held.expiresAt}). Please wait for their turn to finish and try again.`,
+        );
+      }
+      if (!held.releasedAt) {
+        console.warn(
+          `⚠️ Taking over the expired turn of ${held.contributor} (expired ${held.expiresAt})`,
+        );
+      }
+    }
+
+    const now = Date.now();
+    const lease: TurnLease = {
+      leaseId: crypto.randomUUID(),
+      contributor,
+      contributionNumber: nextContributionNumber(parentFolder),
+      parentFolder,
+      claimedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + LEASE_TTL_MS).toISOString(),
+    };
+
+    try {
+      const etag = await storage.writeText(
+        key,
+        JSON.stringify(lease, null, 2),
+        current ? { ifMatch: current.etag } : { ifNoneMatch: true },
+      );
+      console.log(
+        `🔒 Claimed contribution #${lease.contributionNumber} on top of ${parentFolder} until ${lease.expiresAt}`,
+      );
+      return new TurnLock(lease, etag);
+    } catch (error) {
+      if (error instanceof StorageConflictError) {
+        throw new TurnConflictError(
+          "Another contributor claimed the turn at the same moment. Please try again in a few minutes.",
+        );
+      }
+      throw error;
+    }
+  }
+
+  // Push the expiry forward; fails if anyone replaced the lease in the meantime
+  private async renew(): Promise<void> {
+    const lease: TurnLease = {
+      ...this.lease,
+      expiresAt: new Date(Date.now() + LEASE_TTL_MS).toISOString(),
+    };
+    try {
+      this.etag = await getStorage().writeText(
+        asCoordinationKey(TURN_LOCK_FILE),
+        JSON.stringify(lease, null, 2),
+        { ifMatch: this.etag },
+      );
+      this.lease = lease;
+    } catch (error) {
+      if (error instanceof StorageConflictError) {
+        this.lostError = new TurnConflictError(
+          `Your turn for contribution #${this.lease.contributionNumber} was taken over by someone else, probably because the lease expired.`,
+        );
+        throw this.lostError;
+      }
+      throw error;
+    }
+  }
+
+  // Keep the lease alive while long snarkjs runs are in progress
+  startRefreshing(): void {
+    this.refreshTimer = setInterval(() => {
+      this.pendingRefresh = this.renew().catch((error) => {
+        if (error instanceof TurnConflictError) {
+          console.error(`\n❌ ${error.message}`);
+          this.stopRefreshing();
+        } else {
+          console.warn(
+            `⚠️ Could not refresh the turn lock, will retry: ${error instanceof Error ? error.message : error}`,
+          );
+        }
+      });
+    }, LEASE_REFRESH_MS);
+    this.refreshTimer.unref();
+  }
+
+  private stopRefreshing(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+  }
+
+  // Compare-and-swap before uploading: the lease must still be ours and
+  // parentFolder must still be the latest folder in storage
+  async ensureCanUpload(folderName: string): Promise<void> {
+    this.stopRefreshing();
+    await this.pendingRefresh;
+    if (this.lostError) {
+      throw this.refuseUpload(folderName, this.lostError.message);
+    }
+
+    try {
+      await this.renew();
+    } catch (error) {
+      if (error instanceof TurnConflictError) {
+        throw this.refuseUpload(folderName, error.message);
+      }
+      throw error;
+    }
+
+    const folders = await listStorageContributionFolders();
+    const latestFolder = folders[folders.length - 1];
+    if (latestFolder !== this.lease.parentFolder) {
+      throw this.refuseUpload(
+        folderName,
+        `${latestFolder} was uploaded while you were contributing on top of ${this.lease.parentFolder}.`,
+      );
+    }
+  }
+
+  private refuseUpload(folderName: string, reason: string): TurnConflictError {
+    return new TurnConflictError(
+      `Refusing to upload ${folderName}: ${reason}\n` +
+        `The contribution cannot be added to the ceremony any more. ` +
+        `Remove contributions/${folderName} and run the contribution again.`,
+    );
+  }
+
+  // Mark the lease released so the next contributor can claim the turn at once
+  async release(): Promise<void> {
+    this.stopRefreshing();
+    await this.pendingRefresh;
+    if (this.released || this.lostError) {
+      return;
+    }
+    this.released = true;
+
+    const lease: TurnLease = {
+      ...this.lease,
+      releasedAt: new Date().toISOString(),
+    };
+    try {
+      await getStorage().writeText(
+        asCoordinationKey(TURN_LOCK_FILE),
+        JSON.stringify(lease, null, 2),
+        { ifMatch: this.etag },
+      );
+      console.log(
+        `🔓 Released the turn for contribution #${lease.contributionNumber}`,
+      );
+    } catch (error) {
+      console.warn(
+        `⚠️ Could not release the turn lock, it will expire at ${this.lease.expiresAt}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,222 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { execFileSync } from "child_process";
+import { FileDigests, hashFile } from "./hashing";
+import type { Attestation } from "./attestation";
+
+// Written into every contribution and final folder, next to the files it covers
+export const MANIFEST_FILE = "MANIFEST.json";
+
+// A contribution's attestation.json lists the SHA-256 of its zkeys
+export const ATTESTATION_FILE = "attestation.json";
+
+// A file does not match the hash recorded for it
+export class IntegrityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IntegrityError";
+  }
+}
+
+export interface ManifestEntry extends FileDigests {
+  // Path inside the folder, always "/"-separated
+  path: string;
+}
+
+export interface FolderManifest {
+  folder: string;
+  createdAt: string;
+  files: ManifestEntry[];
+}
+
+// Relative paths of all files below a local directory, "/"-separated
+export function getFilesRecursively(
+  dir: string,
+  baseDir: string = dir,
+): string[] {
+  let results: string[] = [];
+  const files = fs.readdirSync(dir);
+
+  files.forEach((file) => {
+    const fullPath = path.join(dir, file);
+    const relativePath = path
+      .relative(baseDir, fullPath)
+      .split(path.sep)
+      .join("/");
+
+    if (fs.statSync(fullPath).isDirectory()) {
+      results = results.concat(getFilesRecursively(fullPath, baseDir));
+    } else {
+      results.push(relativePath);
+    }
+  });
+
+  return results;
+}
+
+// Record the size and digests of every file in the folder. Run it last,
+// once nothing else is going to be written into the folder.
+export async function writeFolderManifest(
+  folderPath: string,
+): Promise<FolderManifest> {
+  const files: ManifestEntry[] = [];
+  for (const file of getFilesRecursively(folderPath).sort()) {
+    if (file === MANIFEST_FILE) {
+      continue;
+    }
+    files.push({
+      path: file,
+      ...(await hashFile(path.join(folderPath, file))),
+    });
+  }
+
+  const manifest: FolderManifest = {
+    folder: path.basename(folderPath),
+    createdAt: new Date().toISOString(),
+    files,
+  };
+  fs.writeJsonSync(path.join(folderPath, MANIFEST_FILE), manifest, {
+    spaces: 2,
+  });
+  return manifest;
+}
+
+// Every difference between the folder and its manifest, or null for folders
+// written before manifests existed
+export async function checkFolderManifest(
+  folderPath: string,
+): Promise<string[] | null> {
+  const manifestPath = path.join(folderPath, MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) {
+    return null;
+  }
+
+  let manifest: FolderManifest;
+  try {
+    manifest = fs.readJsonSync(manifestPath) as FolderManifest;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return [`Invalid ${MANIFEST_FILE}: ${message}`];
+  }
+
+  const errors: string[] = [];
+  if (manifest.folder !== path.basename(folderPath)) {
+    errors.push(`${MANIFEST_FILE} was written for ${manifest.folder}`);
+  }
+
+  const listed = new Set(manifest.files.map((file) => file.path));
+  for (const entry of manifest.files) {
+    const filePath = path.join(folderPath, entry.path);
+    if (!fs.existsSync(filePath)) {
+      errors.push(`${entry.path}: missing`);
+      continue;
+    }
+    const actual = await hashFile(filePath);
+    if (actual.size !== entry.size) {
+      errors.push(`${entry.path}: size ${actual.size}, expected ${entry.size}`);
+    } else if (actual.sha256 !== entry.sha256) {
+      errors.push(
+        `${entry.path}: SHA-256 ${actual.sha256}, expected ${entry.sha256}`,
+      );
+    } else if (actual.blake2b512 !== entry.blake2b512) {
+      errors.push(
+        `${entry.path}: Blake2b-512 ${actual.blake2b512}, expected ${entry.blake2b512}`,
+      );
+    }
+  }
+
+  for (const file of getFilesRecursively(folderPath)) {
+    if (file !== MANIFEST_FILE && !listed.has(file)) {
+      errors.push(`${file}: not listed in ${MANIFEST_FILE}`);
+    }
+  }
+  return errors;
+}
+
+// Expected SHA-256 of the files in a folder, taken from its MANIFEST.json and
+// attestation.json. Files neither of them lists are missing from the map.
+export function readExpectedHashes(folderPath: string): Map<string, string> {
+  const read = (file: string) => {
+    const filePath = path.join(folderPath, file);
+    return fs.existsSync(filePath)
+      ? fs.readFileSync(filePath, "utf8")
+      : undefined;
+  };
+  return parseExpectedHashes(
+    path.basename(folderPath),
+    read(MANIFEST_FILE),
+    read(ATTESTATION_FILE),
+  );
+}
+
+// Whether git can read the repository in the working directory
+function isGitCheckout(): boolean {
+  try {
+    execFileSync("git", ["rev-parse", "--is-inside-work-tree"], {
+      stdio: "ignore",
+    });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+let warnedNoCheckout = false;
+
+// The attestation.json of a folder as committed to the repository, read from
+// git HEAD so that neither storage nor a sync can have replaced it. Undefined
+// for folders not committed yet, and outside a git checkout, where storage
+// has to be trusted and a warning says so.
+export function readCommittedAttestation(
+  folderPath: string,
+): string | undefined {
+  const relativePath = path
+    .relative(process.cwd(), path.join(folderPath, ATTESTATION_FILE))
+    .split(path.sep)
+    .join("/");
+  try {
+    return execFileSync("git", ["show", `HEAD:./${relativePath}`], {
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "ignore"],
+    });
+  } catch (error) {
+    if (!isGitCheckout() && !warnedNoCheckout) {
+      warnedNoCheckout = true;
+      console.warn(
+        `⚠️ No git checkout of the ceremony repository here, or git is not installed. ${ATTESTATION_FILE} files in storage cannot be checked against the committed ones and are trusted as they are.`,
+      );
+    }
+    return undefined;
+  }
+}
+
+// Same as readExpectedHashes, from the content of the two files, e.g. as read
+// from storage
+export function parseExpectedHashes(
+  folderName: string,
+  manifestJson?: string,
+  attestationJson?: string,
+): Map<string, string> {
+  const expected = new Map<string, string>();
+
+  if (manifestJson !== undefined) {
+    const manifest = JSON.parse(manifestJson) as FolderManifest;
+    for (const entry of manifest.files) {
+      expected.set(entry.path, entry.sha256);
+    }
+  }
+
+  if (attestationJson !== undefined) {
+    const attestation = JSON.parse(attestationJson) as Attestation;
+    for (const file of attestation.files ?? []) {
+      const recorded = expected.get(file.filename);
+      if (recorded && recorded !== file.hash) {
+        throw new IntegrityError(
+          `${ATTESTATION_FILE} and ${MANIFEST_FILE} of ${folderName} disagree on the SHA-256 of ${file.filename}`,
+        );
+      }
+      expected.set(file.filename, file.hash);
+    }
+  }
+  return expected;
+}
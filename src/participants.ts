@@ -0,0 +1,77 @@
+import * as fs from "fs-extra";
+import { getCeremonyConfig } from "./config";
+
+// GitHub's own rules: up to 39 letters, digits or single hyphens, neither
+// starting nor ending with a hyphen. Names like this are safe in folder
+// names, storage keys and contribution names as they are.
+const GITHUB_USERNAME_PATTERN =
+  /^[A-Za-z0-9](?:[A-Za-z0-9]|-(?=[A-Za-z0-9])){0,38}$/;
+
+// The username is malformed or not registered for the ceremony
+export class ParticipantError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ParticipantError";
+  }
+}
+
+export function isValidGithubUsername(username: string): boolean {
+  return GITHUB_USERNAME_PATTERN.test(username);
+}
+
+export function ensureValidGithubUsername(username: string): void {
+  if (!isValidGithubUsername(username)) {
+    throw new ParticipantError(
+      `"${username}" is not a valid GitHub username: use up to 39 letters, digits or single hyphens, not starting or ending with a hyphen`,
+    );
+  }
+}
+
+// Usernames in the participants file, one per line; "#" starts a comment.
+// Lowercased, as GitHub usernames are case-insensitive.
+function readParticipants(participantsFile: string): Set<string> {
+  if (!fs.existsSync(participantsFile)) {
+    throw new ParticipantError(
+      `Participants file ${participantsFile} not found`,
+    );
+  }
+
+  const participants = new Set<string>();
+  const errors: string[] = [];
+  fs.readFileSync(participantsFile, "utf8")
+    .split("\n")
+    .forEach((line, index) => {
+      const username = line.replace(/#.*/, "").trim();
+      if (!username) {
+        return;
+      }
+      if (isValidGithubUsername(username)) {
+        participants.add(username.toLowerCase());
+      } else {
+        errors.push(`line ${index + 1}: "${username}"`);
+      }
+    });
+
+  if (errors.length > 0) {
+    throw new ParticipantError(
+      `Invalid usernames in ${participantsFile}:\n  - ${errors.join("\n  - ")}`,
+    );
+  }
+  return participants;
+}
+
+// Check the username, and that it is registered when the ceremony config
+// names a participants file
+export function ensureRegisteredParticipant(username: string): void {
+  ensureValidGithubUsername(username);
+
+  const { participantsFile } = getCeremonyConfig();
+  if (
+    participantsFile &&
+    !readParticipants(participantsFile).has(username.toLowerCase())
+  ) {
+    throw new ParticipantError(
+      `${username} is not registered for this ceremony (see ${participantsFile}). Please contact the ceremony coordinator.`,
+    );
+  }
+}
@@ -0,0 +1,245 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import {
+  contributionRootFolder,
+  ensurePtauFile,
+  ensureR1csFiles,
+  getMissingCircuits,
+  getZkeyFiles,
+  asCoordinationKey,
+} from "./utils";
+import { getCeremonyConfig } from "./config";
+import { getCliOption } from "./cli";
+import {
+  checkContributionZkey,
+  checkInitialZkey,
+  checkSameCircuit,
+  parseContributionFolder,
+} from "./chain";
+import { readAttestation } from "./attestation";
+import { readZkeyContributions } from "./zkey";
+import { getStorage, StorageConflictError } from "./storage";
+import { verifyZkeyFromR1cs } from "./snarkjs";
+
+// Failed checks of each parent folder, kept in the coordination area
+const PARENT_CHECKS_FOLDER = "parent-checks";
+
+// "fast": attestation hashes and chain length of the parent zkeys
+// "thorough": the fast checks plus snarkjs zkey verify against r1cs and ptau
+export type ParentCheckMode = "off" | "fast" | "thorough";
+
+export const PARENT_CHECK_MODES: ParentCheckMode[] = [
+  "off",
+  "fast",
+  "thorough",
+];
+
+export interface ParentCheckResult {
+  folder: string;
+  mode: ParentCheckMode;
+  checkedAt: string;
+  contributor: string;
+  success: boolean;
+  errors: string[];
+}
+
+// The parent folder must not be built upon
+export class ParentCheckError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ParentCheckError";
+  }
+}
+
+export function getParentCheckMode(): ParentCheckMode {
+  const mode = getCliOption("parent-check") || "fast";
+  if (!PARENT_CHECK_MODES.includes(mode as ParentCheckMode)) {
+    throw new ParentCheckError(
+      `--parent-check must be one of ${PARENT_CHECK_MODES.join(", ")}, got "${mode}"`,
+    );
+  }
+  return mode as ParentCheckMode;
+}
+
+// Cheap structural checks of one parent zkey: same circuit as the initial
+// setup, one contribution per folder number and the hash from attestation.json
+async function checkParentZkey(
+  parentFolder: string,
+  zkeyFile: string,
+): Promise<string | null> {
+  const { initialFolder } = getCeremonyConfig();
+  if (parentFolder === initialFolder) {
+    const check = checkInitialZkey(initialFolder, zkeyFile);
+    return check.success
+      ? null
+      : (check.errorMessage ?? "Invalid initial zkey");
+  }
+
+  const info = parseContributionFolder(parentFolder);
+  if (!info) {
+    return `${parentFolder} is not a contribution folder`;
+  }
+
+  const initial = readZkeyContributions(
+    path.join(contributionRootFolder, initialFolder, zkeyFile),
+  );
+  const parent = readZkeyContributions(
+    path.join(contributionRootFolder, parentFolder, zkeyFile),
+  );
+  const circuitError = checkSameCircuit(initialFolder, initial, parent);
+  if (circuitError) {
+    return circuitError;
+  }
+
+  if (!readAttestation(parentFolder)) {
+    return `${parentFolder} has no attestation.json`;
+  }
+  const check = await checkContributionZkey(parentFolder, zkeyFile, parent);
+  return check.success ? null : (check.errorMessage ?? "Invalid zkey");
+}
+
+// Check the downloaded parent folder before contributing on top of it
+async function checkParentFolder(
+  parentFolder: string,
+  contributor: string,
+  mode: ParentCheckMode,
+): Promise<ParentCheckResult> {
+  console.log(
+    `\n🔍 Checking ${parentFolder} before building on it (${mode})...`,
+  );
+
+  const errors: string[] = [];
+  const missingCircuits = getMissingCircuits(parentFolder);
+  if (missingCircuits.length > 0) {
+    errors.push(`Missing zkeys for: ${missingCircuits.join(", ")}`);
+  }
+
+  const zkeyFiles = getZkeyFiles(parentFolder);
+  for (const zkeyFile of zkeyFiles) {
+    try {
+      const error = await checkParentZkey(parentFolder, zkeyFile);
+      if (error) {
+        errors.push(`${zkeyFile}: ${error}`);
+      }
+    } catch (error) {
+      errors.push(
+        `${zkeyFile}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  // zkey verify takes long; there is no point running it on a broken folder
+  if (mode === "thorough" && errors.length === 0) {
+    const r1csFolderPath = await ensureR1csFiles();
+    const ptauFile = await ensurePtauFile();
+    for (const zkeyFile of zkeyFiles) {
+      const r1csFile = path.join(
+        r1csFolderPath,
+        zkeyFile.replace(".zkey", ".r1cs"),
+      );
+      if (!fs.existsSync(r1csFile)) {
+        errors.push(`${zkeyFile}: no ${path.basename(r1csFile)} to verify it`);
+        continue;
+      }
+      console.log(`\nVerifying ${parentFolder}/${zkeyFile} from scratch...`);
+      try {
+        const valid = await verifyZkeyFromR1cs(
+          r1csFile,
+          ptauFile,
+          path.join(contributionRootFolder, parentFolder, zkeyFile),
+        );
+        if (!valid) {
+          errors.push(`${zkeyFile}: snarkjs zkey verify rejected the zkey`);
+        }
+      } catch (error) {
+        errors.push(
+          `${zkeyFile}: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    }
+  }
+
+  const result: ParentCheckResult = {
+    folder: parentFolder,
+    mode,
+    checkedAt: new Date().toISOString(),
+    contributor,
+    success: errors.length === 0,
+    errors,
+  };
+
+  if (result.success) {
+    console.log(`✅ ${parentFolder} passed the ${mode} check`);
+  }
+  return result;
+}
+
+// Keep a failed check in the coordination area, so the coordinator can see
+// why a contributor refused the parent
+async function recordParentCheckFailure(
+  result: ParentCheckResult,
+): Promise<void> {
+  const key = asCoordinationKey(
+    `${PARENT_CHECKS_FOLDER}/${result.folder}.json`,
+  );
+  const storage = getStorage();
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const current = await storage.readText(key);
+    const results: ParentCheckResult[] = current
+      ? JSON.parse(current.content)
+      : [];
+    results.push(result);
+    try {
+      await storage.writeText(
+        key,
+        JSON.stringify(results, null, 2),
+        current ? { ifMatch: current.etag } : { ifNoneMatch: true },
+      );
+      console.log(`Recorded the failed check at ${storage.uri(key)}`);
+      return;
+    } catch (error) {
+      if (!(error instanceof StorageConflictError)) {
+        throw error;
+      }
+    }
+  }
+  throw new Error(`Could not record the failed check at ${storage.uri(key)}`);
+}
+
+// Throw a ParentCheckError listing every problem of a failed check
+function ensureParentCheckPassed(result: ParentCheckResult): void {
+  if (!result.success) {
+    throw new ParentCheckError(
+      `${result.folder} failed the ${result.mode} check and must not be built upon:\n  - ${result.errors.join("\n  - ")}\nPlease report this to the ceremony coordinator.`,
+    );
+  }
+}
+
+// Run the check selected with --parent-check, recording and throwing on
+// failure. Returns undefined when the check is turned off.
+export async function runParentCheck(
+  parentFolder: string,
+  contributor: string,
+  mode: ParentCheckMode,
+): Promise<ParentCheckResult | undefined> {
+  if (mode === "off") {
+    console.warn(
+      `⚠️ Skipping the check of ${parentFolder} (--parent-check off)`,
+    );
+    return undefined;
+  }
+
+  const result = await checkParentFolder(parentFolder, contributor, mode);
+  if (!result.success) {
+    try {
+      await recordParentCheckFailure(result);
+    } catch (error) {
+      console.warn(
+        `⚠️ Could not record the failed check: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+  ensureParentCheckPassed(result);
+  return result;
+}
@@ -0,0 +1,103 @@
+import * as path from "path";
+import {
+  contributionRootFolder,
+  checkRequiredEnvVars,
+  ensureInitialSetup,
+  downloadLatestContribution,
+  getParentFolder,
+  getMissingCircuits,
+} from "./utils";
+import { getCeremonyConfig } from "./config";
+import { getCliOption, getGithubUsername, InputRequiredError } from "./cli";
+import { nextContributionNumber } from "./chain";
+import { ensureHeadOfQueue, QueueError } from "./queue";
+import { BundleError, getBundlePath, writeBundle } from "./bundle";
+import { IntegrityError } from "./manifest";
+import { TransferError } from "./transfer";
+import {
+  getParentCheckMode,
+  runParentCheck,
+  ParentCheckError,
+} from "./precheck";
+import { ensureRegisteredParticipant, ParticipantError } from "./participants";
+
+// Online half of an air-gapped contribution: pack the latest zkeys into an
+// input bundle for "npm run contribute -- --offline"
+async function main(): Promise<void> {
+  try {
+    checkRequiredEnvVars();
+    const parentCheckMode = getParentCheckMode();
+
+    const githubUsername = getGithubUsername();
+    ensureRegisteredParticipant(githubUsername);
+
+    // The bundle is only useful to whoever contributes next
+    await ensureHeadOfQueue(githubUsername);
+
+    const parentFolder = await getParentFolder();
+    await ensureInitialSetup();
+    const latestFolder = await downloadLatestContribution();
+    if (latestFolder !== parentFolder) {
+      throw new Error(`Could not download ${parentFolder} from storage`);
+    }
+
+    const missingCircuits = getMissingCircuits(parentFolder);
+    if (missingCircuits.length > 0) {
+      throw new Error(
+        `${parentFolder} is missing zkeys for: ${missingCircuits.join(", ")}`,
+      );
+    }
+
+    // Checked here, as the air-gapped machine has no r1cs, ptau or attestations
+    const parentCheck = await runParentCheck(
+      parentFolder,
+      githubUsername,
+      parentCheckMode,
+    );
+
+    const contributionNumber = nextContributionNumber(parentFolder);
+    const folderName = `${contributionNumber}_${githubUsername}`;
+    const bundleDir =
+      getCliOption("bundle") || getBundlePath(folderName, "input");
+
+    console.log(`\n📦 Packing ${parentFolder} into ${bundleDir}...`);
+    const manifest = await writeBundle(
+      bundleDir,
+      path.join(contributionRootFolder, parentFolder),
+      {
+        kind: "input",
+        ceremonyId: getCeremonyConfig().ceremonyId,
+        contributor: githubUsername,
+        contributionNumber,
+        parentFolder,
+        folder: parentFolder,
+        parentCheck,
+      },
+      (file) => file.endsWith(".zkey"),
+    );
+
+    console.log(
+      `✅ Input bundle for contribution #${contributionNumber} written to ${bundleDir} (${manifest.files.length} zkeys)`,
+    );
+    console.log(
+      "\nCopy it to your air-gapped machine and run: npm run contribute -- --offline --bundle <dir>",
+    );
+  } catch (error) {
+    if (
+      error instanceof QueueError ||
+      error instanceof BundleError ||
+      error instanceof IntegrityError ||
+      error instanceof TransferError ||
+      error instanceof ParentCheckError ||
+      error instanceof InputRequiredError ||
+      error instanceof ParticipantError
+    ) {
+      console.error(`\n❌ ${error.message}`);
+    } else {
+      console.error("Error while preparing the offline bundle:", error);
+    }
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,249 @@
+import * as crypto from "crypto";
+import { getCeremonyConfig } from "./config";
+import { isLeaseActive, readTurnLease } from "./lock";
+import { getStorage, StorageConflictError } from "./storage";
+import { asCoordinationKey } from "./utils";
+
+const QUEUE_FILE = "queue.json";
+// Concurrent queue changes are rare, a few compare-and-swap retries are enough
+const MAX_UPDATE_ATTEMPTS = 5;
+
+export type TurnOutcome = "contributed" | "left" | "skipped" | "expired";
+
+export interface QueueEntry {
+  githubUsername: string;
+  joinedAt: string;
+  // Set when the entry reaches the head of the queue
+  turnStartedAt?: string;
+}
+
+export interface QueueHistoryEntry {
+  githubUsername: string;
+  outcome: TurnOutcome;
+  at: string;
+}
+
+// Content of the queue object in storage
+export interface ContributionQueue {
+  entries: QueueEntry[];
+  history: QueueHistoryEntry[];
+}
+
+export class QueueError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueueError";
+  }
+}
+
+// GitHub usernames are case-insensitive
+function isSameUser(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function findPosition(
+  queue: ContributionQueue,
+  githubUsername: string,
+): number {
+  return queue.entries.findIndex((entry) =>
+    isSameUser(entry.githubUsername, githubUsername),
+  );
+}
+
+// Time after which the turn of the head of the queue can be expired
+export function getTurnDeadline(entry: QueueEntry): Date | null {
+  if (!entry.turnStartedAt) {
+    return null;
+  }
+  const { turnTimeoutMinutes } = getCeremonyConfig().queue;
+  return new Date(
+    Date.parse(entry.turnStartedAt) + turnTimeoutMinutes * 60 * 1000,
+  );
+}
+
+export async function readQueue(): Promise<ContributionQueue> {
+  const current = await getStorage().readText(asCoordinationKey(QUEUE_FILE));
+  return current
+    ? (JSON.parse(current.content) as ContributionQueue)
+    : { entries: [], history: [] };
+}
+
+// Apply change to the latest queue and write it back only if nobody changed it
+// in the meantime. change may run several times and must not have side effects.
+async function updateQueue<T>(
+  change: (queue: ContributionQueue) => T,
+): Promise<T> {
+  const storage = getStorage();
+  const key = asCoordinationKey(QUEUE_FILE);
+
+  for (let attempt = 1; ; attempt++) {
+    const current = await storage.readText(key);
+    const queue: ContributionQueue = current
+      ? JSON.parse(current.content)
+      : { entries: [], history: [] };
+
+    const result = change(queue);
+
+    // Whoever is now at the head starts their turn
+    const head = queue.entries[0];
+    if (head && !head.turnStartedAt) {
+      head.turnStartedAt = new Date().toISOString();
+    }
+
+    try {
+      await storage.writeText(
+        key,
+        JSON.stringify(queue, null, 2),
+        current ? { ifMatch: current.etag } : { ifNoneMatch: true },
+      );
+      return result;
+    } catch (error) {
+      if (
+        error instanceof StorageConflictError &&
+        attempt < MAX_UPDATE_ATTEMPTS
+      ) {
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
+function removeEntry(
+  queue: ContributionQueue,
+  position: number,
+  outcome: TurnOutcome,
+): QueueEntry {
+  const [entry] = queue.entries.splice(position, 1);
+  queue.history.push({
+    githubUsername: entry.githubUsername,
+    outcome,
+    at: new Date().toISOString(),
+  });
+  return entry;
+}
+
+// Add the user to the end of the queue; returns their 1-based position
+export async function joinQueue(githubUsername: string): Promise<number> {
+  return updateQueue((queue) => {
+    const position = findPosition(queue, githubUsername);
+    if (position !== -1) {
+      return position + 1;
+    }
+    queue.entries.push({
+      githubUsername,
+      joinedAt: new Date().toISOString(),
+    });
+    return queue.entries.length;
+  });
+}
+
+export async function leaveQueue(githubUsername: string): Promise<void> {
+  await updateQueue((queue) => {
+    const position = findPosition(queue, githubUsername);
+    if (position === -1) {
+      throw new QueueError(`${githubUsername} is not in the queue`);
+    }
+    removeEntry(queue, position, "left");
+  });
+}
+
+// Coordinators prove who they are with the token whose hash the ceremony
+// config records
+function ensureCoordinator(coordinatorToken: string | undefined): void {
+  const expected = getCeremonyConfig().queue.coordinatorTokenSha256;
+  if (!expected) {
+    throw new QueueError(
+      "The ceremony config sets no queue.coordinatorTokenSha256, so no turn can be skipped",
+    );
+  }
+  if (!coordinatorToken) {
+    throw new QueueError(
+      "Only coordinators can skip a turn: set CEREMONY_COORDINATOR_TOKEN",
+    );
+  }
+  const actual = crypto.createHash("sha256").update(coordinatorToken).digest();
+  if (!crypto.timingSafeEqual(actual, Buffer.from(expected, "hex"))) {
+    throw new QueueError(
+      "CEREMONY_COORDINATOR_TOKEN is not the coordinator token",
+    );
+  }
+}
+
+// Coordinator action: drop a user from the queue, whether or not it is their turn
+export async function skipTurn(
+  githubUsername: string,
+  coordinatorToken: string | undefined,
+): Promise<void> {
+  ensureCoordinator(coordinatorToken);
+  await updateQueue((queue) => {
+    const position = findPosition(queue, githubUsername);
+    if (position === -1) {
+      throw new QueueError(`${githubUsername} is not in the queue`);
+    }
+    removeEntry(queue, position, "skipped");
+  });
+}
+
+// Drop the head of the queue once its turn has timed out. Anyone may do this,
+// but not while the head holds the turn lock, i.e. is contributing right now.
+export async function expireStaleTurn(): Promise<QueueEntry> {
+  const lease = await readTurnLease();
+
+  return updateQueue((queue) => {
+    const head = queue.entries[0];
+    if (!head) {
+      throw new QueueError("The queue is empty");
+    }
+
+    const deadline = getTurnDeadline(head);
+    if (deadline && deadline.getTime() > Date.now()) {
+      throw new QueueError(
+        `The turn of ${head.githubUsername} runs until ${deadline.toISOString()}`,
+      );
+    }
+    if (
+      lease &&
+      isLeaseActive(lease) &&
+      isSameUser(lease.contributor, head.githubUsername)
+    ) {
+      throw new QueueError(
+        `${head.githubUsername} is contributing right now (turn lock held until ${lease.expiresAt})`,
+      );
+    }
+
+    return removeEntry(queue, 0, "expired");
+  });
+}
+
+// Called after a successful upload to hand the turn to the next contributor
+export async function completeTurn(githubUsername: string): Promise<void> {
+  await updateQueue((queue) => {
+    const head = queue.entries[0];
+    if (!head || !isSameUser(head.githubUsername, githubUsername)) {
+      throw new QueueError(
+        `${githubUsername} is no longer at the head of the queue`,
+      );
+    }
+    removeEntry(queue, 0, "contributed");
+  });
+}
+
+// Throws unless the user currently holds the head of the queue
+export async function ensureHeadOfQueue(githubUsername: string): Promise<void> {
+  const queue = await readQueue();
+  const position = findPosition(queue, githubUsername);
+
+  if (position === -1) {
+    throw new QueueError(
+      `${githubUsername} is not in the contribution queue. Join it with "npm run queue -- join --user ${githubUsername}" and wait for your turn.`,
+    );
+  }
+  if (position > 0) {
+    const head = queue.entries[0];
+    throw new QueueError(
+      `It is not your turn yet: you are at position ${position + 1}, ${head.githubUsername} is contributing first. ` +
+        `Check your position with "npm run queue -- status --user ${githubUsername}".`,
+    );
+  }
+}
@@ -0,0 +1,172 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { SignatureCheck } from "./attestation";
+
+export interface VerificationResult {
+  contributionFolder: string;
+  circuitName: string;
+  success: boolean;
+  // Wall-clock time spent verifying this circuit
+  durationMs?: number;
+  // True when the result was taken from the verification cache
+  cached?: boolean;
+  // snarkjs contribution hash of the latest contribution in the zkey
+  contributionHash?: string;
+  errorMessage?: string;
+  // Full error output (stderr, stack) for failed verifications
+  errorDetails?: string;
+}
+
+export type ReportFormat = "json" | "junit";
+
+export const REPORT_FORMATS: ReportFormat[] = ["json", "junit"];
+
+export interface VerificationReport {
+  generatedAt: string;
+  mode: string;
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    invalidSignatures: number;
+    // Valid signatures by a key not linked to the contributor
+    unlinkedSignatures: number;
+  };
+  results: VerificationResult[];
+  signatures: Record<string, SignatureCheck | null>;
+}
+
+export function buildReport(
+  mode: string,
+  results: VerificationResult[],
+  signatures: Record<string, SignatureCheck | null>,
+): VerificationReport {
+  const passed = results.filter((r) => r.success).length;
+  return {
+    generatedAt: new Date().toISOString(),
+    mode,
+    summary: {
+      total: results.length,
+      passed,
+      failed: results.length - passed,
+      invalidSignatures: Object.values(signatures).filter(
+        (check) => check && check.signed && !check.valid,
+      ).length,
+      unlinkedSignatures: Object.values(signatures).filter(
+        (check) => check && check.valid && !check.keyLinked,
+      ).length,
+    },
+    results,
+    signatures,
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function toSeconds(durationMs?: number): string {
+  return ((durationMs || 0) / 1000).toFixed(3);
+}
+
+function formatTestCase(
+  folder: string,
+  name: string,
+  durationMs: number | undefined,
+  body: string[],
+): string {
+  const open = `    <testcase classname="${escapeXml(folder)}" name="${escapeXml(name)}" time="${toSeconds(durationMs)}">`;
+  return [open, ...body.map((line) => `      ${line}`), "    </testcase>"].join(
+    "\n",
+  );
+}
+
+// One <testsuite> per contribution folder, one <testcase> per circuit
+export function formatJunitReport(report: VerificationReport): string {
+  const folders = [
+    ...new Set(report.results.map((r) => r.contributionFolder)),
+  ].sort();
+
+  let totalTests = 0;
+  let totalFailures = 0;
+
+  const suites = folders.map((folder) => {
+    const results = report.results.filter(
+      (r) => r.contributionFolder === folder,
+    );
+    let failures = results.filter((r) => !r.success).length;
+    const time = results.reduce((sum, r) => sum + (r.durationMs || 0), 0);
+
+    const cases = results.map((result) => {
+      const body: string[] = [];
+      if (result.contributionHash) {
+        body.push(
+          `<system-out>contributionHash=${result.contributionHash}</system-out>`,
+        );
+      }
+      if (!result.success) {
+        body.push(
+          `<failure message="${escapeXml(result.errorMessage || "Verification failed")}">${escapeXml(result.errorDetails || result.errorMessage || "")}</failure>`,
+        );
+      }
+      return formatTestCase(
+        folder,
+        result.circuitName,
+        result.durationMs,
+        body,
+      );
+    });
+
+    const signature = report.signatures[folder];
+    if (signature && signature.signed) {
+      const body: string[] = [];
+      if (!signature.valid) {
+        failures++;
+        body.push(
+          `<failure message="${escapeXml(signature.errorMessage || "Invalid signature")}"/>`,
+        );
+      } else if (!signature.keyLinked) {
+        body.push(
+          `<system-out>${escapeXml(`key not linked to the contributor: ${signature.keySource}`)}</system-out>`,
+        );
+      }
+      cases.push(formatTestCase(folder, "attestation-signature", 0, body));
+    }
+
+    totalTests += cases.length;
+    totalFailures += failures;
+
+    return [
+      `  <testsuite name="${escapeXml(folder)}" tests="${cases.length}" failures="${failures}" time="${toSeconds(time)}">`,
+      ...cases,
+      "  </testsuite>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="trusted-setup-verification (${escapeXml(report.mode)})" tests="${totalTests}" failures="${totalFailures}" timestamp="${report.generatedAt}">`,
+    ...suites,
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
+
+export function writeReport(
+  report: VerificationReport,
+  format: ReportFormat,
+  outputPath: string,
+): void {
+  fs.ensureDirSync(path.dirname(outputPath));
+  if (format === "json") {
+    fs.writeJsonSync(outputPath, report, { spaces: 2 });
+  } else {
+    fs.writeFileSync(outputPath, formatJunitReport(report));
+  }
+  console.log(`📄 ${format.toUpperCase()} report written to ${outputPath}`);
+}
@@ -0,0 +1,98 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { execFileSync } from "child_process";
+
+// Best-effort handling of contribution secrets. JavaScript cannot guarantee
+// that no copy is left behind, but everything the scripts control is kept in
+// Buffers, wiped right after use and never written anywhere.
+
+// Overwrite secret buffers with zeros
+export function wipe(...buffers: (Uint8Array | undefined)[]): void {
+  for (const buffer of buffers) {
+    buffer?.fill(0);
+  }
+}
+
+// Stop this process from writing its memory to a core dump, where the OS
+// allows it. Returns what could not be done.
+export function disableCoreDumps(): string[] {
+  const problems: string[] = [];
+
+  try {
+    execFileSync("prlimit", ["--pid", String(process.pid), "--core=0:0"], {
+      stdio: "ignore",
+    });
+  } catch (error) {
+    problems.push(
+      "could not set the core file size limit to 0 (prlimit unavailable); run `ulimit -c 0` before contributing",
+    );
+  }
+
+  // Linux only: leave every memory mapping out of a core dump
+  const filterPath = "/proc/self/coredump_filter";
+  if (fs.existsSync(filterPath)) {
+    try {
+      fs.writeFileSync(filterPath, "0");
+    } catch (error) {
+      problems.push(`could not write ${filterPath}`);
+    }
+  }
+  return problems;
+}
+
+export interface ArtifactSnapshot {
+  startedAt: number;
+  tempEntries: Set<string>;
+}
+
+// Remember what the temp directory held before the contribution started
+export function snapshotArtifacts(): ArtifactSnapshot {
+  return {
+    startedAt: Date.now(),
+    tempEntries: new Set(fs.readdirSync(os.tmpdir())),
+  };
+}
+
+// Devices memory pages may have been swapped out to, from /proc/swaps
+function getActiveSwaps(): string[] {
+  try {
+    return fs
+      .readFileSync("/proc/swaps", "utf8")
+      .split("\n")
+      .slice(1)
+      .map((line) => line.trim().split(/\s+/)[0])
+      .filter((device) => device);
+  } catch (error) {
+    return [];
+  }
+}
+
+// Places the contribution may have left traces of its secrets in: new temp
+// files written during the run, and active swap
+export function findArtifacts(snapshot: ArtifactSnapshot): string[] {
+  const findings: string[] = [];
+
+  const tempDir = os.tmpdir();
+  for (const entry of fs.readdirSync(tempDir)) {
+    if (snapshot.tempEntries.has(entry)) {
+      continue;
+    }
+    try {
+      const stats = fs.statSync(path.join(tempDir, entry));
+      if (stats.mtimeMs >= snapshot.startedAt) {
+        findings.push(`new temp file ${path.join(tempDir, entry)}`);
+      }
+    } catch (error) {
+      // Removed again in the meantime
+    }
+  }
+
+  const swaps = getActiveSwaps();
+  if (swaps.length > 0) {
+    findings.push(
+      `swap is active (${swaps.join(", ")}); memory holding entropy may have been written to it`,
+    );
+  }
+  return findings;
+}
@@ -0,0 +1,357 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import * as http from "http";
+import * as crypto from "crypto";
+import { spawn } from "child_process";
+import { getCliOption, hasCliFlag } from "./cli";
+import { CeremonyConfig } from "./config";
+import { sha256File } from "./hashing";
+import { writeFolderManifest } from "./manifest";
+import { newTestPtau, newZkey } from "./snarkjs";
+
+// A throwaway ceremony run end to end: tiny circuits and ptau in a temp
+// directory, local storage, automated contributions, a beacon from a stand-in
+// Ethereum node, and verification of the result
+
+const DEFAULT_CONTRIBUTIONS = 3;
+// 2^4 constraints are plenty for the circuits below
+const PTAU_POWER = 4;
+const PTAU_FILE = `simulation_${PTAU_POWER}.ptau`;
+const STORAGE_PREFIX = "simulation";
+const BEACON_BLOCK_NUMBER = 1000;
+const BEACON_CONFIRMATIONS = 2;
+
+// BN128 scalar field, the prime every r1cs file records
+const BN128_PRIME = BigInt(
+  "21888242871839275222246405745257275088548364400416034343698204186575808495617",
+);
+
+// Linear combination of (wire, coefficient) terms; wire 0 is the constant 1
+type LinearCombination = [number, number][];
+
+// A circuit written down as its constraints A * B = C, in place of a circom
+// build. Wires are numbered 1 = outputs, then public inputs, then private.
+interface SimulationCircuit {
+  name: string;
+  nWires: number;
+  nPubOut: number;
+  nPubIn: number;
+  nPrvIn: number;
+  constraints: [LinearCombination, LinearCombination, LinearCombination][];
+}
+
+const CIRCUITS: SimulationCircuit[] = [
+  // c = a * b with private a and b
+  {
+    name: "multiplier",
+    nWires: 4,
+    nPubOut: 1,
+    nPubIn: 0,
+    nPrvIn: 2,
+    constraints: [[[[2, 1]], [[3, 1]], [[1, 1]]]],
+  },
+  // y = x^3 with public x, through the intermediate x^2 on wire 3
+  {
+    name: "cube",
+    nWires: 4,
+    nPubOut: 1,
+    nPubIn: 1,
+    nPrvIn: 0,
+    constraints: [
+      [[[2, 1]], [[2, 1]], [[3, 1]]],
+      [[[3, 1]], [[2, 1]], [[1, 1]]],
+    ],
+  },
+];
+
+function uint32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+}
+
+function uint64(value: number): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(BigInt(value));
+  return buffer;
+}
+
+// Field element, 32 bytes little-endian
+function fieldElement(value: bigint): Buffer {
+  return Buffer.from(value.toString(16).padStart(64, "0"), "hex").reverse();
+}
+
+function linearCombination(terms: LinearCombination): Buffer {
+  return Buffer.concat([
+    uint32(terms.length),
+    ...terms.map(([wire, coefficient]) =>
+      Buffer.concat([uint32(wire), fieldElement(BigInt(coefficient))]),
+    ),
+  ]);
+}
+
+function r1csSection(type: number, body: Buffer): Buffer {
+  return Buffer.concat([uint32(type), uint64(body.length), body]);
+}
+
+// Write circuit in the binary r1cs format circom produces (version 1)
+function writeR1cs(circuit: SimulationCircuit, r1csPath: string): void {
+  const header = Buffer.concat([
+    uint32(32),
+    fieldElement(BN128_PRIME),
+    uint32(circuit.nWires),
+    uint32(circuit.nPubOut),
+    uint32(circuit.nPubIn),
+    uint32(circuit.nPrvIn),
+    uint64(circuit.nWires),
+    uint32(circuit.constraints.length),
+  ]);
+  const constraints = Buffer.concat(
+    circuit.constraints.flatMap((constraint) =>
+      constraint.map(linearCombination),
+    ),
+  );
+  const wireLabels = Buffer.concat(
+    Array.from({ length: circuit.nWires }, (_, wire) => uint64(wire)),
+  );
+
+  fs.writeFileSync(
+    r1csPath,
+    Buffer.concat([
+      Buffer.from("r1cs"),
+      uint32(1),
+      uint32(3),
+      r1csSection(1, header),
+      r1csSection(2, constraints),
+      r1csSection(3, wireLabels),
+    ]),
+  );
+}
+
+// Answers the two JSON-RPC calls finalize and verify make for the beacon block
+function startBeaconNode(blockHash: string): Promise<http.Server> {
+  const server = http.createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      const { id, method, params } = JSON.parse(body);
+      let result: unknown = null;
+      if (method === "eth_blockNumber") {
+        result = `0x${(BEACON_BLOCK_NUMBER + BEACON_CONFIRMATIONS).toString(16)}`;
+      } else if (
+        method === "eth_getBlockByNumber" &&
+        BigInt(params[0]) === BigInt(BEACON_BLOCK_NUMBER)
+      ) {
+        result = { number: params[0], hash: blockHash };
+      }
+      response.setHeader("Content-Type", "application/json");
+      response.end(JSON.stringify({ jsonrpc: "2.0", id, result }));
+    });
+  });
+  return new Promise((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve(server)),
+  );
+}
+
+interface Simulation {
+  rootDir: string;
+  // Working directory of the ceremony scripts, holding ./contributions
+  workDir: string;
+  storageDir: string;
+  logDir: string;
+  rpcUrl: string;
+  verbose: boolean;
+  steps: number;
+}
+
+// Set up storage the way the coordinator would before the first contribution
+async function createCeremony(simulation: Simulation): Promise<void> {
+  const prefixDir = path.join(simulation.storageDir, STORAGE_PREFIX);
+  const r1csDir = path.join(prefixDir, "r1cs");
+  const initialDir = path.join(prefixDir, "0000_initial");
+  fs.ensureDirSync(r1csDir);
+  fs.ensureDirSync(initialDir);
+  fs.ensureDirSync(simulation.workDir);
+
+  const ptauPath = path.join(simulation.storageDir, PTAU_FILE);
+  console.log(`Creating a 2^${PTAU_POWER} ptau...`);
+  await newTestPtau(ptauPath, PTAU_POWER, { onLog: () => {} });
+
+  for (const circuit of CIRCUITS) {
+    console.log(`Creating the initial zkey of ${circuit.name}...`);
+    const r1csPath = path.join(r1csDir, `${circuit.name}.r1cs`);
+    writeR1cs(circuit, r1csPath);
+    await newZkey(
+      r1csPath,
+      ptauPath,
+      path.join(initialDir, `${circuit.name}.zkey`),
+      { onLog: () => {} },
+    );
+  }
+  await writeFolderManifest(initialDir);
+
+  const config: CeremonyConfig = {
+    ceremonyId: "simulation",
+    storagePrefix: STORAGE_PREFIX,
+    ptau: { file: PTAU_FILE, sha256: await sha256File(ptauPath) },
+    initialFolder: "0000_initial",
+    circuits: CIRCUITS.map((circuit) => circuit.name),
+    beacon: {
+      blockNumber: String(BEACON_BLOCK_NUMBER),
+      iterations: 10,
+      confirmations: BEACON_CONFIRMATIONS,
+    },
+    queue: { turnTimeoutMinutes: 60 },
+    finalFolder: "{number}_final",
+  };
+  fs.writeJsonSync(path.join(simulation.workDir, "ceremony.json"), config, {
+    spaces: 2,
+  });
+}
+
+// Run one of the ceremony scripts the way npm run does, inside workDir
+function runScript(
+  simulation: Simulation,
+  label: string,
+  script: string,
+  args: string[],
+): Promise<void> {
+  simulation.steps++;
+  const logPath = path.join(
+    simulation.logDir,
+    `${String(simulation.steps).padStart(2, "0")}-${label}.log`,
+  );
+
+  // Under ts-node the scripts are run from source as well
+  const isTypeScript = __filename.endsWith(".ts");
+  const scriptPath = path.join(
+    __dirname,
+    `${script}${isTypeScript ? ".ts" : ".js"}`,
+  );
+  const nodeArgs = isTypeScript
+    ? ["--require", require.resolve("ts-node/register"), scriptPath, ...args]
+    : [scriptPath, ...args];
+
+  const child = spawn(process.execPath, nodeArgs, {
+    cwd: simulation.workDir,
+    env: {
+      ...process.env,
+      CEREMONY_STORAGE_DIR: simulation.storageDir,
+      CEREMONY_CONFIG: "ceremony.json",
+      ETH_RPC_URL: simulation.rpcUrl,
+      // ts-node looks for tsconfig.json from the working directory
+      ...(isTypeScript && {
+        TS_NODE_PROJECT: path.join(__dirname, "..", "tsconfig.json"),
+      }),
+    },
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  const log = fs.createWriteStream(logPath);
+  for (const stream of [child.stdout, child.stderr]) {
+    stream.pipe(log, { end: false });
+    if (simulation.verbose) {
+      stream.pipe(process.stdout, { end: false });
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    child.on("error", reject);
+    child.on("close", (code) => {
+      log.end();
+      if (code === 0) {
+        console.log(`✅ ${label}`);
+        resolve();
+      } else {
+        reject(new Error(`${label} exited with code ${code}, see ${logPath}`));
+      }
+    });
+  });
+}
+
+async function runSimulation(
+  simulation: Simulation,
+  contributions: number,
+): Promise<void> {
+  await createCeremony(simulation);
+
+  for (let i = 1; i <= contributions; i++) {
+    const user = `simulated-${i}`;
+    await runScript(simulation, `join-${user}`, "turns", [
+      "join",
+      "--user",
+      user,
+    ]);
+    await runScript(simulation, `contribute-${user}`, "contribute", [
+      "--user",
+      user,
+      "--yes",
+      "--entropy",
+      "os,urandom",
+    ]);
+  }
+
+  await runScript(simulation, "finalize", "finalize", []);
+  await runScript(simulation, "verify", "verify", []);
+  await runScript(simulation, "verify-chain", "verify", ["--chain"]);
+}
+
+async function main(): Promise<void> {
+  const contributions = parseInt(
+    getCliOption("contributions") || String(DEFAULT_CONTRIBUTIONS),
+    10,
+  );
+  if (!(contributions >= 1)) {
+    console.error("❌ --contributions must be a positive number");
+    process.exit(1);
+  }
+
+  const rootDir = fs.mkdtempSync(
+    path.join(os.tmpdir(), "ceremony-simulation-"),
+  );
+  const keep = hasCliFlag("keep");
+  const beaconNode = await startBeaconNode(
+    `0x${crypto.randomBytes(32).toString("hex")}`,
+  );
+  const { port } = beaconNode.address() as { port: number };
+
+  const simulation: Simulation = {
+    rootDir,
+    workDir: path.join(rootDir, "ceremony"),
+    storageDir: path.join(rootDir, "storage"),
+    logDir: path.join(rootDir, "logs"),
+    rpcUrl: `http://127.0.0.1:${port}`,
+    verbose: hasCliFlag("verbose"),
+    steps: 0,
+  };
+  fs.ensureDirSync(simulation.logDir);
+
+  console.log(
+    `🧪 Simulating a ceremony with ${contributions} contributions in ${rootDir}\n`,
+  );
+  const started = Date.now();
+  let failed = false;
+  try {
+    await runSimulation(simulation, contributions);
+    console.log(
+      `\n🎉 Simulation passed in ${Math.round((Date.now() - started) / 1000)}s`,
+    );
+  } catch (error) {
+    failed = true;
+    console.error(
+      `\n❌ Simulation failed: ${error instanceof Error ? error.message : error}`,
+    );
+  } finally {
+    beaconNode.close();
+  }
+
+  // Keep the evidence of a failed run
+  if (keep || failed) {
+    console.log(`Simulation files kept in ${rootDir}`);
+  } else {
+    fs.removeSync(rootDir);
+  }
+  process.exit(failed ? 1 : 0);
+}
+
+main();
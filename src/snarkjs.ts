@@ -0,0 +1,216 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { Worker } from "worker_threads";
+import type {
+  LogLevel,
+  SnarkjsOperation,
+  SnarkjsTask,
+  WorkerMessage,
+} from "./worker";
+
+export interface SnarkjsOptions {
+  // Heap limit of the worker thread, e.g. for the mainnet circuits
+  heapMb?: number;
+  // Forward snarkjs debug messages as well
+  verbose?: boolean;
+  // Receives every snarkjs log line; they are printed when omitted
+  onLog?: (level: LogLevel, message: string) => void;
+}
+
+export interface ContributionOutput {
+  // Blake2b-512 contribution hash snarkjs prints, as hex
+  contributionHash: string;
+}
+
+export interface VerificationKey {
+  protocol: string;
+  curve: string;
+  nPublic: number;
+  [field: string]: unknown;
+}
+
+// A snarkjs operation failed or its worker thread died
+export class SnarkjsError extends Error {
+  constructor(
+    readonly operation: SnarkjsOperation,
+    message: string,
+  ) {
+    super(`snarkjs ${operation} failed: ${message}`);
+    this.name = "SnarkjsError";
+  }
+}
+
+function printLog(level: LogLevel, message: string): void {
+  if (level === "error") {
+    console.error(message);
+  } else if (level === "warn") {
+    console.warn(message);
+  } else {
+    console.log(message);
+  }
+}
+
+// Run one snarkjs call in a worker thread. Arguments, entropy included, are
+// handed over in memory, and the main thread stays free for the turn lock.
+function runInWorker<T>(
+  operation: SnarkjsOperation,
+  args: (string | number)[],
+  options: SnarkjsOptions,
+  secret?: Buffer,
+): Promise<T> {
+  // A private copy is transferred, not cloned, so the only copy of the secret
+  // outside the caller's buffer ends up in the worker
+  const transferred = secret ? new Uint8Array(secret) : undefined;
+  const task: SnarkjsTask = {
+    operation,
+    args,
+    secret: transferred,
+    verbose: options.verbose ?? false,
+  };
+  const onLog = options.onLog ?? printLog;
+
+  // Under ts-node the worker has to load the TypeScript source as well
+  const isTypeScript = __filename.endsWith(".ts");
+  const worker = new Worker(
+    path.join(__dirname, isTypeScript ? "worker.ts" : "worker.js"),
+    {
+      workerData: task,
+      transferList: transferred ? [transferred.buffer] : undefined,
+      execArgv: isTypeScript
+        ? ["--require", require.resolve("ts-node/register")]
+        : [],
+      resourceLimits: options.heapMb
+        ? { maxOldGenerationSizeMb: options.heapMb }
+        : undefined,
+    },
+  );
+
+  return new Promise<T>((resolve, reject) => {
+    let settled = false;
+    const settle = (callback: () => void) => {
+      if (!settled) {
+        settled = true;
+        callback();
+        // snarkjs keeps its curve threads alive, so the worker never exits by itself
+        worker.terminate();
+      }
+    };
+
+    worker.on("message", (message: WorkerMessage) => {
+      if (message.type === "log") {
+        onLog(message.level, message.message);
+      } else if (message.type === "result") {
+        settle(() => resolve(message.value as T));
+      } else {
+        settle(() => reject(new SnarkjsError(operation, message.message)));
+      }
+    });
+    worker.on("error", (error: Error & { code?: string }) => {
+      const message =
+        error.code === "ERR_WORKER_OUT_OF_MEMORY"
+          ? "out of memory, raise the heap limit"
+          : error.message;
+      settle(() => reject(new SnarkjsError(operation, message)));
+    });
+    worker.on("exit", (code) => {
+      settle(() =>
+        reject(new SnarkjsError(operation, `worker exited with code ${code}`)),
+      );
+    });
+  });
+}
+
+// The caller keeps ownership of entropy and wipes it afterwards
+export async function contributeZkey(
+  oldZkey: string,
+  newZkey: string,
+  name: string,
+  entropy: Buffer,
+  options: SnarkjsOptions = {},
+): Promise<ContributionOutput> {
+  const contributionHash = await runInWorker<string>(
+    "contribute",
+    [oldZkey, newZkey, name],
+    options,
+    entropy,
+  );
+  return { contributionHash };
+}
+
+export async function beaconZkey(
+  oldZkey: string,
+  newZkey: string,
+  name: string,
+  beaconHash: string,
+  numIterationsExp: number,
+  options: SnarkjsOptions = {},
+): Promise<ContributionOutput> {
+  const contributionHash = await runInWorker<string>(
+    "beacon",
+    [oldZkey, newZkey, name, beaconHash, numIterationsExp],
+    options,
+  );
+  return { contributionHash };
+}
+
+// Check every contribution of zkey, starting from the initial zkey
+export function verifyZkeyFromInit(
+  initZkey: string,
+  ptau: string,
+  zkey: string,
+  options: SnarkjsOptions = {},
+): Promise<boolean> {
+  return runInWorker<boolean>(
+    "verifyFromInit",
+    [initZkey, ptau, zkey],
+    options,
+  );
+}
+
+// Check every contribution of zkey, starting from the circuit itself
+export function verifyZkeyFromR1cs(
+  r1cs: string,
+  ptau: string,
+  zkey: string,
+  options: SnarkjsOptions = {},
+): Promise<boolean> {
+  return runInWorker<boolean>("verifyFromR1cs", [r1cs, ptau, zkey], options);
+}
+
+// Initial zkey of a circuit, before any contribution
+export async function newZkey(
+  r1cs: string,
+  ptau: string,
+  zkey: string,
+  options: SnarkjsOptions = {},
+): Promise<void> {
+  await runInWorker<boolean>("newZkey", [r1cs, ptau, zkey], options);
+}
+
+// Throwaway ptau of 2^power constraints for simulations and tests; never use
+// it for a real ceremony
+export async function newTestPtau(
+  ptau: string,
+  power: number,
+  options: SnarkjsOptions = {},
+): Promise<void> {
+  await runInWorker<boolean>("newPtau", [ptau, power], options);
+}
+
+// Export the verification key of zkey, and write it to vkeyPath if given
+export async function exportVerificationKey(
+  zkey: string,
+  vkeyPath?: string,
+  options: SnarkjsOptions = {},
+): Promise<VerificationKey> {
+  const vkey = await runInWorker<VerificationKey>(
+    "exportVerificationKey",
+    [zkey],
+    options,
+  );
+  if (vkeyPath) {
+    // Same layout as the snarkjs CLI writes
+    fs.writeFileSync(vkeyPath, JSON.stringify(vkey, null, 1));
+  }
+  return vkey;
+}
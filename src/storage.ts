@@ -0,0 +1,705 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as crypto from "crypto";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  S3Client,
+  S3ServiceException,
+  ListObjectsV2Command,
+  GetObjectCommand,
+  PutObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  CompletedPart,
+} from "@aws-sdk/client-s3";
+
+// Files above this size are uploaded in parts (zkeys are several hundred MB)
+const MULTIPART_THRESHOLD = 64 * 1024 * 1024;
+const MULTIPART_PART_SIZE = 32 * 1024 * 1024;
+
+// A single object held by a storage backend. Keys are always "/"-separated
+// and relative to the backend root (the S3 bucket or the local directory).
+export interface StorageObject {
+  key: string;
+  size: number;
+  etag?: string;
+  lastModified?: Date;
+}
+
+// Base class for every failure reported by a storage backend
+export class StorageError extends Error {
+  constructor(
+    message: string,
+    public readonly key?: string,
+    public readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = "StorageError";
+  }
+}
+
+export class StorageNotFoundError extends StorageError {
+  constructor(key: string, cause?: unknown) {
+    super(`Object not found: ${key}`, key, cause);
+    this.name = "StorageNotFoundError";
+  }
+}
+
+// A conditional write lost against a concurrent change of the same key
+export class StorageConflictError extends StorageError {
+  constructor(key: string, cause?: unknown) {
+    super(`Conflicting update of ${key}`, key, cause);
+    this.name = "StorageConflictError";
+  }
+}
+
+export class StorageAccessDeniedError extends StorageError {
+  constructor(key: string, cause?: unknown) {
+    super(`Access denied: ${key}`, key, cause);
+    this.name = "StorageAccessDeniedError";
+  }
+}
+
+// A failure that may go away by itself, such as throttling, a server error or
+// a dropped connection; trying again later can succeed
+export class StorageUnavailableError extends StorageError {
+  constructor(key: string, detail: string, cause?: unknown) {
+    super(`Temporary failure on ${key}: ${detail}`, key, cause);
+    this.name = "StorageUnavailableError";
+  }
+}
+
+const TRANSIENT_S3_ERRORS = [
+  "SlowDown",
+  "RequestTimeout",
+  "InternalError",
+  "ServiceUnavailable",
+  "ThrottlingException",
+  "RequestLimitExceeded",
+];
+
+// Node.js error codes of a network that is down or a connection that broke
+const TRANSIENT_NETWORK_ERRORS = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "ENOTFOUND",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+  "ERR_STREAM_PREMATURE_CLOSE",
+];
+
+// Translate an AWS SDK exception into one of the storage error classes
+function toStorageError(error: unknown, key: string): StorageError {
+  if (error instanceof StorageError) {
+    return error;
+  }
+  if (error instanceof S3ServiceException) {
+    const status = error.$metadata?.httpStatusCode;
+    if (
+      error.name === "NoSuchKey" ||
+      error.name === "NotFound" ||
+      status === 404
+    ) {
+      return new StorageNotFoundError(key, error);
+    }
+    if (error.name === "AccessDenied" || status === 403) {
+      return new StorageAccessDeniedError(key, error);
+    }
+    if (
+      error.name === "PreconditionFailed" ||
+      error.name === "ConditionalRequestConflict" ||
+      status === 412 ||
+      status === 409
+    ) {
+      return new StorageConflictError(key, error);
+    }
+    if (
+      TRANSIENT_S3_ERRORS.includes(error.name) ||
+      status === 429 ||
+      (status !== undefined && status >= 500)
+    ) {
+      return new StorageUnavailableError(
+        key,
+        `${error.name}: ${error.message}`,
+        error,
+      );
+    }
+    return new StorageError(`${error.name}: ${error.message}`, key, error);
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  const code = (error as NodeJS.ErrnoException | undefined)?.code;
+  if (
+    (code && TRANSIENT_NETWORK_ERRORS.includes(code)) ||
+    (error instanceof Error && error.name === "TimeoutError")
+  ) {
+    return new StorageUnavailableError(key, message, error);
+  }
+  return new StorageError(message, key, error);
+}
+
+// Options of a single get or put
+export interface TransferOptions {
+  // get only: continue a partial download, appending from this byte on
+  offset?: number;
+  // get only: the version tag the object must still have, so that a ranged
+  // get cannot append bytes of a newer version; throws StorageConflictError
+  ifMatch?: string;
+  // Receives the number of bytes moved so far by this call
+  onProgress?: (bytes: number) => void;
+}
+
+// Pass-through stream reporting the bytes that went through it
+function countingStream(onProgress?: (bytes: number) => void): Transform {
+  let bytes = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      bytes += chunk.length;
+      onProgress?.(bytes);
+      callback(null, chunk);
+    },
+  });
+}
+
+// A small object read together with its version tag
+export interface StorageText {
+  content: string;
+  etag: string;
+}
+
+// Precondition of a conditional write: the key must not exist yet, or must
+// still hold the version that was read
+export type WriteCondition = { ifNoneMatch: true } | { ifMatch: string };
+
+// Common interface for every place the ceremony files can live. The scripts
+// only talk to this interface, so the same flows work against S3, a plain
+// directory on an air-gapped machine or a mirror.
+export interface CeremonyStorage {
+  // Human-readable location of a key, used for logging only
+  uri(key: string): string;
+  // List every object whose key starts with the given prefix
+  list(prefix: string): Promise<StorageObject[]>;
+  // Return object metadata, or null if the key does not exist
+  head(key: string): Promise<StorageObject | null>;
+  // Download an object to a local file
+  get(key: string, localPath: string, options?: TransferOptions): Promise<void>;
+  // Upload a local file under the given key
+  put(localPath: string, key: string, options?: TransferOptions): Promise<void>;
+  // Remove an object; removing a missing key is not an error
+  delete(key: string): Promise<void>;
+  // Read a small text object, or null if the key does not exist
+  readText(key: string): Promise<StorageText | null>;
+  // Write a small text object if the condition holds and return its new
+  // version tag; throws StorageConflictError otherwise
+  writeText(
+    key: string,
+    content: string,
+    condition: WriteCondition,
+  ): Promise<string>;
+}
+
+export class S3Storage implements CeremonyStorage {
+  private readonly client: S3Client;
+
+  constructor(
+    private readonly bucket: string,
+    region?: string,
+    endpoint?: string,
+  ) {
+    this.client = new S3Client({ region, endpoint });
+  }
+
+  uri(key: string): string {
+    return `s3://${this.bucket}/${key}`;
+  }
+
+  async list(prefix: string): Promise<StorageObject[]> {
+    const objects: StorageObject[] = [];
+    let continuationToken: string | undefined;
+
+    try {
+      do {
+        const response = await this.client.send(
+          new ListObjectsV2Command({
+            Bucket: this.bucket,
+            Prefix: prefix,
+            ContinuationToken: continuationToken,
+          }),
+        );
+
+        for (const item of response.Contents || []) {
+          if (item.Key && !item.Key.endsWith("/")) {
+            objects.push({
+              key: item.Key,
+              size: item.Size || 0,
+              etag: item.ETag,
+              lastModified: item.LastModified,
+            });
+          }
+        }
+
+        continuationToken = response.IsTruncated
+          ? response.NextContinuationToken
+          : undefined;
+      } while (continuationToken);
+    } catch (error) {
+      throw toStorageError(error, prefix);
+    }
+
+    return objects;
+  }
+
+  async head(key: string): Promise<StorageObject | null> {
+    try {
+      const response = await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: key }),
+      );
+      return {
+        key,
+        size: response.ContentLength || 0,
+        etag: response.ETag,
+        lastModified: response.LastModified,
+      };
+    } catch (error) {
+      const storageError = toStorageError(error, key);
+      if (storageError instanceof StorageNotFoundError) {
+        return null;
+      }
+      throw storageError;
+    }
+  }
+
+  async get(
+    key: string,
+    localPath: string,
+    options: TransferOptions = {},
+  ): Promise<void> {
+    const offset = options.offset ?? 0;
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({
+          Bucket: this.bucket,
+          Key: key,
+          Range: offset > 0 ? `bytes=${offset}-` : undefined,
+          IfMatch: options.ifMatch,
+        }),
+      );
+
+      if (!response.Body) {
+        throw new StorageError(`Empty response body for ${this.uri(key)}`, key);
+      }
+
+      fs.ensureDirSync(path.dirname(localPath));
+      await pipeline(
+        response.Body as Readable,
+        countingStream(options.onProgress),
+        fs.createWriteStream(localPath, { flags: offset > 0 ? "a" : "w" }),
+      );
+
+      if (
+        response.ContentLength !== undefined &&
+        fs.statSync(localPath).size !== offset + response.ContentLength
+      ) {
+        throw new StorageUnavailableError(
+          key,
+          `incomplete download, expected ${offset + response.ContentLength} bytes`,
+        );
+      }
+    } catch (error) {
+      throw toStorageError(error, key);
+    }
+  }
+
+  async put(
+    localPath: string,
+    key: string,
+    options: TransferOptions = {},
+  ): Promise<void> {
+    const { size } = fs.statSync(localPath);
+
+    if (size > MULTIPART_THRESHOLD) {
+      await this.putMultipart(localPath, key, size, options.onProgress);
+      return;
+    }
+
+    try {
+      await this.client.send(
+        new PutObjectCommand({
+          Bucket: this.bucket,
+          Key: key,
+          Body: fs
+            .createReadStream(localPath)
+            .pipe(countingStream(options.onProgress)),
+          ContentLength: size,
+        }),
+      );
+    } catch (error) {
+      throw toStorageError(error, key);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.client.send(
+        new DeleteObjectCommand({ Bucket: this.bucket, Key: key }),
+      );
+    } catch (error) {
+      throw toStorageError(error, key);
+    }
+  }
+
+  async readText(key: string): Promise<StorageText | null> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      );
+      return {
+        content: (await response.Body?.transformToString("utf8")) ?? "",
+        etag: response.ETag || "",
+      };
+    } catch (error) {
+      const storageError = toStorageError(error, key);
+      if (storageError instanceof StorageNotFoundError) {
+        return null;
+      }
+      throw storageError;
+    }
+  }
+
+  async writeText(
+    key: string,
+    content: string,
+    condition: WriteCondition,
+  ): Promise<string> {
+    try {
+      const response = await this.client.send(
+        new PutObjectCommand({
+          Bucket: this.bucket,
+          Key: key,
+          Body: content,
+          ContentType: "application/json",
+          IfNoneMatch: "ifNoneMatch" in condition ? "*" : undefined,
+          IfMatch: "ifMatch" in condition ? condition.ifMatch : undefined,
+        }),
+      );
+      return response.ETag || "";
+    } catch (error) {
+      throw toStorageError(error, key);
+    }
+  }
+
+  private async putMultipart(
+    localPath: string,
+    key: string,
+    size: number,
+    onProgress?: (bytes: number) => void,
+  ): Promise<void> {
+    let uploadId: string | undefined;
+
+    try {
+      const created = await this.client.send(
+        new CreateMultipartUploadCommand({ Bucket: this.bucket, Key: key }),
+      );
+      uploadId = created.UploadId;
+
+      const parts: CompletedPart[] = [];
+      for (
+        let start = 0, partNumber = 1;
+        start < size;
+        start += MULTIPART_PART_SIZE, partNumber++
+      ) {
+        const end = Math.min(start + MULTIPART_PART_SIZE, size);
+        const response = await this.client.send(
+          new UploadPartCommand({
+            Bucket: this.bucket,
+            Key: key,
+            UploadId: uploadId,
+            PartNumber: partNumber,
+            Body: fs.createReadStream(localPath, { start, end: end - 1 }),
+            ContentLength: end - start,
+          }),
+        );
+        parts.push({ ETag: response.ETag, PartNumber: partNumber });
+        onProgress?.(end);
+      }
+
+      await this.client.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: this.bucket,
+          Key: key,
+          UploadId: uploadId,
+          MultipartUpload: { Parts: parts },
+        }),
+      );
+    } catch (error) {
+      // Do not leave orphaned parts behind in the bucket
+      if (uploadId) {
+        await this.client
+          .send(
+            new AbortMultipartUploadCommand({
+              Bucket: this.bucket,
+              Key: key,
+              UploadId: uploadId,
+            }),
+          )
+          .catch(() => undefined);
+      }
+      throw toStorageError(error, key);
+    }
+  }
+}
+
+// Age after which the lock file of a conditional local write is considered
+// left behind by a crashed process
+const LOCAL_WRITE_LOCK_STALE_MS = 10_000;
+
+export class LocalStorage implements CeremonyStorage {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  uri(key: string): string {
+    return path.join(this.root, key);
+  }
+
+  async list(prefix: string): Promise<StorageObject[]> {
+    // Walk only the directory that can contain the prefix
+    const baseKey = prefix.endsWith("/") ? prefix : path.posix.dirname(prefix);
+    const baseDir = path.join(this.root, baseKey === "." ? "" : baseKey);
+
+    if (!fs.existsSync(baseDir) || !fs.statSync(baseDir).isDirectory()) {
+      return [];
+    }
+
+    const walk = (dir: string): StorageObject[] => {
+      let results: StorageObject[] = [];
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          results = results.concat(walk(fullPath));
+        } else if (entry.isFile()) {
+          const stats = fs.statSync(fullPath);
+          results.push({
+            key: path.relative(this.root, fullPath).split(path.sep).join("/"),
+            size: stats.size,
+            lastModified: stats.mtime,
+          });
+        }
+      }
+      return results;
+    };
+
+    return walk(baseDir)
+      .filter((object) => object.key.startsWith(prefix))
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  async head(key: string): Promise<StorageObject | null> {
+    const fullPath = this.uri(key);
+    if (!fs.existsSync(fullPath) || !fs.statSync(fullPath).isFile()) {
+      return null;
+    }
+    const stats = fs.statSync(fullPath);
+    return {
+      key,
+      size: stats.size,
+      etag: LocalStorage.fileEtagOf(stats),
+      lastModified: stats.mtime,
+    };
+  }
+
+  // Stands in for the ETag of a file without reading it, as zkeys are large.
+  // put() replaces files by renaming, so every new version has a new inode.
+  private static fileEtagOf(stats: fs.Stats): string {
+    return `"${stats.ino}-${stats.size}-${stats.mtimeMs}"`;
+  }
+
+  private ensureVersion(key: string, ifMatch: string | undefined): void {
+    if (!ifMatch) {
+      return;
+    }
+    const stats = fs.statSync(this.uri(key), { throwIfNoEntry: false });
+    if (!stats || LocalStorage.fileEtagOf(stats) !== ifMatch) {
+      throw new StorageConflictError(key);
+    }
+  }
+
+  async get(
+    key: string,
+    localPath: string,
+    options: TransferOptions = {},
+  ): Promise<void> {
+    const fullPath = this.uri(key);
+    if (!fs.existsSync(fullPath)) {
+      throw new StorageNotFoundError(key);
+    }
+    this.ensureVersion(key, options.ifMatch);
+    fs.ensureDirSync(path.dirname(localPath));
+    const offset = options.offset ?? 0;
+    await pipeline(
+      fs.createReadStream(fullPath, { start: offset }),
+      countingStream(options.onProgress),
+      fs.createWriteStream(localPath, { flags: offset > 0 ? "a" : "w" }),
+    );
+    // Replaced while it was being read
+    this.ensureVersion(key, options.ifMatch);
+  }
+
+  async put(
+    localPath: string,
+    key: string,
+    options: TransferOptions = {},
+  ): Promise<void> {
+    const fullPath = this.uri(key);
+    fs.ensureDirSync(path.dirname(fullPath));
+    const tempPath = `${fullPath}.${process.pid}.tmp`;
+    fs.copyFileSync(localPath, tempPath);
+    fs.renameSync(tempPath, fullPath);
+    options.onProgress?.(fs.statSync(fullPath).size);
+  }
+
+  async delete(key: string): Promise<void> {
+    fs.removeSync(this.uri(key));
+  }
+
+  // The content hash stands in for the ETag S3 would return
+  private static etagOf(content: string): string {
+    return `"${crypto.createHash("sha256").update(content).digest("hex")}"`;
+  }
+
+  async readText(key: string): Promise<StorageText | null> {
+    const fullPath = this.uri(key);
+    if (!fs.existsSync(fullPath)) {
+      return null;
+    }
+    const content = fs.readFileSync(fullPath, "utf8");
+    return { content, etag: LocalStorage.etagOf(content) };
+  }
+
+  // Conditional writes are only atomic between processes on this machine,
+  // which is all a local directory is shared with: an ifMatch write compares
+  // and replaces the file while holding an exclusive lock file next to it
+  async writeText(
+    key: string,
+    content: string,
+    condition: WriteCondition,
+  ): Promise<string> {
+    const fullPath = this.uri(key);
+    fs.ensureDirSync(path.dirname(fullPath));
+
+    if ("ifNoneMatch" in condition) {
+      try {
+        fs.writeFileSync(fullPath, content, { flag: "wx" });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+          throw new StorageConflictError(key, error);
+        }
+        throw new StorageError(String(error), key, error);
+      }
+      return LocalStorage.etagOf(content);
+    }
+
+    const lockPath = LocalStorage.acquireWriteLock(key, fullPath);
+    try {
+      const current = await this.readText(key);
+      if (!current || current.etag !== condition.ifMatch) {
+        throw new StorageConflictError(key);
+      }
+      const tempPath = `${fullPath}.${process.pid}.tmp`;
+      fs.writeFileSync(tempPath, content);
+      fs.renameSync(tempPath, fullPath);
+      return LocalStorage.etagOf(content);
+    } finally {
+      fs.removeSync(lockPath);
+    }
+  }
+
+  // Create the lock file of a key, or fail with a conflict while another
+  // process holds it. A lock left behind by a crashed process is taken over
+  // once it is older than any write could take.
+  private static acquireWriteLock(key: string, fullPath: string): string {
+    const lockPath = `${fullPath}.lock`;
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        fs.closeSync(fs.openSync(lockPath, "wx"));
+        return lockPath;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw new StorageError(String(error), key, error);
+        }
+      }
+      const stats = fs.statSync(lockPath, { throwIfNoEntry: false });
+      if (stats && Date.now() - stats.mtimeMs < LOCAL_WRITE_LOCK_STALE_MS) {
+        break;
+      }
+      if (stats && !LocalStorage.removeStaleLock(lockPath, stats)) {
+        break;
+      }
+    }
+    throw new StorageConflictError(key);
+  }
+
+  // Move a stale lock out of the way under a name of its own, so that of two
+  // processes taking it over, only one removes it. The other one then finds
+  // it moved the fresh lock of the first one, and puts it back.
+  private static removeStaleLock(lockPath: string, stale: fs.Stats): boolean {
+    const movedPath = `${lockPath}.${process.pid}.${crypto.randomUUID()}`;
+    try {
+      fs.renameSync(lockPath, movedPath);
+    } catch (error) {
+      // Taken over by another process already
+      return false;
+    }
+    const moved = fs.statSync(movedPath);
+    if (moved.ino !== stale.ino || moved.mtimeMs !== stale.mtimeMs) {
+      try {
+        fs.linkSync(movedPath, lockPath);
+      } catch (error) {
+        // Someone holds a newer lock still
+      }
+      fs.removeSync(movedPath);
+      return false;
+    }
+    fs.removeSync(movedPath);
+    return true;
+  }
+}
+
+let storageInstance: CeremonyStorage | null = null;
+
+// Select the storage backend from the environment. CEREMONY_STORAGE_DIR
+// switches to a local directory; otherwise the S3 bucket from S3BUCKET is used.
+export function getStorage(): CeremonyStorage {
+  if (!storageInstance) {
+    const localDir = process.env.CEREMONY_STORAGE_DIR;
+    if (localDir) {
+      storageInstance = new LocalStorage(localDir);
+    } else {
+      storageInstance = new S3Storage(
+        (process.env.S3BUCKET || "").replace("s3://", ""),
+        process.env.AWS_DEFAULT_REGION,
+        process.env.AWS_ENDPOINT_URL,
+      );
+    }
+  }
+  return storageInstance;
+}
+
+// Override the storage backend, e.g. to run the flows against a fixture directory
+export function setStorage(storage: CeremonyStorage): void {
+  storageInstance = storage;
+}
+
+export function isLocalStorage(): boolean {
+  return Boolean(process.env.CEREMONY_STORAGE_DIR);
+}
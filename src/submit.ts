@@ -0,0 +1,190 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import {
+  contributionRootFolder,
+  checkRequiredEnvVars,
+  getRecordedHashes,
+  uploadToS3,
+  verifyStorageCopy,
+} from "./utils";
+import { sha256File } from "./hashing";
+import { checkFolderManifest, IntegrityError, MANIFEST_FILE } from "./manifest";
+import { TransferError } from "./transfer";
+import { getCliOption } from "./cli";
+import { checkChainLink } from "./chain";
+import { TurnLock, TurnConflictError } from "./lock";
+import { ensureHeadOfQueue, completeTurn, QueueError } from "./queue";
+import {
+  BundleError,
+  BundleManifest,
+  getBundleManifestPath,
+  getBundlePath,
+  readBundle,
+} from "./bundle";
+import { ensureRegisteredParticipant, ParticipantError } from "./participants";
+
+// The output bundle must be the contribution prepared in the input bundle
+async function checkBundlePair(
+  inputDir: string,
+  input: BundleManifest,
+  output: BundleManifest,
+): Promise<void> {
+  const inputManifestSha256 = await sha256File(getBundleManifestPath(inputDir));
+  if (output.inputManifestSha256 !== inputManifestSha256) {
+    throw new BundleError(
+      `The output bundle was not produced from ${inputDir} (input manifest SHA-256 ${output.inputManifestSha256}, expected ${inputManifestSha256})`,
+    );
+  }
+
+  const expectedFolder = `${input.contributionNumber}_${input.contributor}`;
+  if (
+    output.contributor !== input.contributor ||
+    output.contributionNumber !== input.contributionNumber ||
+    output.parentFolder !== input.parentFolder ||
+    output.folder !== expectedFolder
+  ) {
+    throw new BundleError(
+      `The output bundle holds ${output.folder} on top of ${output.parentFolder}, expected ${expectedFolder} on top of ${input.parentFolder}`,
+    );
+  }
+}
+
+// The parent zkeys in the input bundle replace the local parent folder, so
+// they must be the ones recorded for it
+async function checkBundleParent(input: BundleManifest): Promise<void> {
+  const recorded = await getRecordedHashes(input.folder);
+  const errors: string[] = [];
+  for (const file of input.files) {
+    const name = path.posix.relative(input.folder, file.path);
+    const expected = recorded.get(name);
+    if (!expected) {
+      errors.push(`${name}: no SHA-256 recorded for ${input.folder}`);
+    } else if (file.sha256 !== expected) {
+      errors.push(`${name}: SHA-256 ${file.sha256}, expected ${expected}`);
+    }
+  }
+  if (errors.length > 0) {
+    throw new IntegrityError(
+      `The input bundle does not hold the recorded ${input.folder}:\n  - ${errors.join("\n  - ")}`,
+    );
+  }
+}
+
+// Online half of an air-gapped contribution: check an output bundle from
+// "npm run contribute -- --offline" and upload the contribution it holds
+async function main(): Promise<void> {
+  let lock: TurnLock | undefined;
+  try {
+    checkRequiredEnvVars();
+
+    const bundleDir = getCliOption("bundle");
+    if (!bundleDir) {
+      throw new Error(
+        "Pass the output bundle written by contribute --offline with --bundle <dir>",
+      );
+    }
+
+    console.log(`\n🔍 Checking output bundle ${bundleDir}...`);
+    const output = await readBundle(bundleDir, "output");
+    console.log(`✅ ${output.files.length} files match the bundle manifest`);
+
+    const inputDir =
+      getCliOption("input") || getBundlePath(output.folder, "input");
+    console.log(`🔍 Checking input bundle ${inputDir}...`);
+    const input = await readBundle(inputDir, "input");
+    await checkBundlePair(inputDir, input, output);
+    console.log(`✅ The output bundle was produced from ${inputDir}`);
+    await checkBundleParent(input);
+    console.log(`✅ The input bundle holds the recorded ${input.folder}`);
+
+    const folderName = output.folder;
+    fs.copySync(
+      path.join(inputDir, input.folder),
+      path.join(contributionRootFolder, input.folder),
+    );
+    fs.copySync(
+      path.join(bundleDir, folderName),
+      path.join(contributionRootFolder, folderName),
+    );
+
+    const manifestErrors = await checkFolderManifest(
+      path.join(contributionRootFolder, folderName),
+    );
+    if (manifestErrors === null) {
+      throw new BundleError(`${folderName} has no ${MANIFEST_FILE}`);
+    }
+    if (manifestErrors.length > 0) {
+      throw new BundleError(
+        `${folderName} does not match its ${MANIFEST_FILE}:\n  - ${manifestErrors.join("\n  - ")}`,
+      );
+    }
+
+    // Every new zkey must be its parent plus exactly this contribution
+    const chainErrors: string[] = [];
+    for (const file of input.files) {
+      const zkeyFile = path.basename(file.path);
+      const check = await checkChainLink(input.folder, folderName, zkeyFile);
+      if (!check.success) {
+        chainErrors.push(`${zkeyFile}: ${check.errorMessage}`);
+      }
+    }
+    if (chainErrors.length > 0) {
+      throw new BundleError(
+        `${folderName} does not extend ${input.folder}:\n  - ${chainErrors.join("\n  - ")}`,
+      );
+    }
+    console.log(`✅ ${folderName} extends ${input.folder}`);
+
+    ensureRegisteredParticipant(output.contributor);
+    await ensureHeadOfQueue(output.contributor);
+    lock = await TurnLock.claim(output.contributor, output.parentFolder);
+    lock.startRefreshing();
+
+    // Only upload if nobody else extended the chain while contributing offline
+    await lock.ensureCanUpload(folderName);
+
+    console.log(`\nUploading ${folderName} to storage...`);
+    if (!(await uploadToS3(folderName))) {
+      throw new Error(`Upload of ${folderName} failed`);
+    }
+
+    console.log(`\nVerifying uploaded contribution...`);
+    if (!(await verifyStorageCopy(folderName))) {
+      throw new Error(
+        `Storage copy of ${folderName} does not match the local folder`,
+      );
+    }
+
+    await lock.release();
+
+    // Hand the turn to the next contributor in the queue
+    try {
+      await completeTurn(output.contributor);
+    } catch (error) {
+      console.warn(
+        `⚠️ Could not update the contribution queue: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+
+    console.log(
+      `\n✅ Contribution ${folderName} submitted. Please commit and push contributions/${folderName} to the repository.`,
+    );
+  } catch (error) {
+    await lock?.release();
+    if (
+      error instanceof TurnConflictError ||
+      error instanceof QueueError ||
+      error instanceof BundleError ||
+      error instanceof IntegrityError ||
+      error instanceof TransferError ||
+      error instanceof ParticipantError
+    ) {
+      console.error(`\n❌ ${error.message}`);
+    } else {
+      console.error("Error while submitting the offline contribution:", error);
+    }
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,57 @@
+import * as fs from "fs-extra";
+import { getCliOption, hasCliFlag } from "./cli";
+import { IntegrityError } from "./manifest";
+import { TransferError } from "./transfer";
+import { checkRequiredEnvVars, syncFolder } from "./utils";
+
+const USAGE = `Usage: npm run sync -- <folder> [options]
+
+Compare ./contributions/<folder> with the same folder in storage by name, size
+and SHA-256, and download what is missing or differs locally.
+
+Options:
+  --push                 Upload local files to storage instead
+  --delete               Also delete files the other side does not have
+  --dry-run              Only print the planned actions
+  --report-file <file>   Write the diff, actions and failures as JSON`;
+
+async function main(): Promise<void> {
+  const folderName = process.argv[2];
+  if (!folderName || folderName.startsWith("--")) {
+    console.log(USAGE);
+    process.exit(folderName ? 1 : 0);
+  }
+
+  try {
+    checkRequiredEnvVars();
+
+    const result = await syncFolder(folderName, {
+      direction: hasCliFlag("push") ? "push" : "pull",
+      delete: hasCliFlag("delete"),
+      dryRun: hasCliFlag("dry-run"),
+    });
+
+    const reportFile = getCliOption("report-file");
+    if (reportFile) {
+      fs.writeJsonSync(reportFile, result, { spaces: 2 });
+      console.log(`Report written to ${reportFile}`);
+    }
+
+    if (result.failed.length > 0) {
+      console.error(`❌ ${result.failed.length} actions failed`);
+      process.exit(1);
+    }
+    if (!result.dryRun) {
+      console.log(`✅ ${folderName} is in sync`);
+    }
+  } catch (error) {
+    if (error instanceof IntegrityError || error instanceof TransferError) {
+      console.error(`❌ ${error.message}`);
+    } else {
+      console.error("Error while syncing with storage:", error);
+    }
+    process.exit(1);
+  }
+}
+
+main();
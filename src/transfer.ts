@@ -0,0 +1,306 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import {
+  getStorage,
+  StorageConflictError,
+  StorageNotFoundError,
+  StorageUnavailableError,
+} from "./storage";
+
+// Moves files between storage and disk with bounded retries and exponential
+// backoff for temporary failures, resumes interrupted downloads from where
+// they stopped and shows the progress of large files. Failures that cannot go
+// away by themselves (a missing object, denied access) are not retried.
+
+export interface RetryPolicy {
+  // Tries in total, the first one included
+  attempts: number;
+  // Wait before the first retry; it doubles for every further retry
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+};
+
+let retryPolicy = DEFAULT_RETRY_POLICY;
+
+// Replace the retry policy, e.g. to retry without waiting in tests
+export function setRetryPolicy(policy: RetryPolicy): void {
+  retryPolicy = policy;
+}
+
+// Progress is shown for files from this size on; smaller ones are done
+// before it would be worth reading
+const PROGRESS_MIN_BYTES = 16 * 1024 * 1024;
+// Redraw interval on a terminal
+const PROGRESS_REDRAW_MS = 250;
+// Without a terminal, a line is logged every this many percent
+const PROGRESS_LOG_STEP = 25;
+
+// A transfer kept failing with temporary errors until the retries ran out
+export class TransferError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = "TransferError";
+  }
+}
+
+export function isTransientError(error: unknown): boolean {
+  return error instanceof StorageUnavailableError;
+}
+
+// Wait before the retry that follows the given failed attempt. Half of it is
+// random, so clients hit by the same outage do not all retry at once.
+export function retryDelayMs(
+  attempt: number,
+  policy: RetryPolicy = retryPolicy,
+): number {
+  const delay = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1),
+  );
+  return Math.round(delay / 2 + (Math.random() * delay) / 2);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Run operation until it succeeds, retrying temporary failures. Any other
+// error is thrown at once; running out of attempts throws a TransferError.
+export async function withRetries<T>(
+  what: string,
+  operation: (attempt: number) => Promise<T>,
+): Promise<T> {
+  const policy = retryPolicy;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (!isTransientError(error)) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      if (attempt >= policy.attempts) {
+        throw new TransferError(
+          `${what} failed ${policy.attempts} times: ${message}`,
+          error,
+        );
+      }
+      const delay = retryDelayMs(attempt, policy);
+      console.warn(
+        `⚠️ ${what} failed (attempt ${attempt}/${policy.attempts}): ${message}. Retrying in ${formatDuration(delay / 1000)}...`,
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+const MB = 1024 * 1024;
+
+function formatBytes(bytes: number): string {
+  return `${(bytes / MB).toFixed(1)} MB`;
+}
+
+function formatDuration(seconds: number): string {
+  const rounded = Math.ceil(seconds);
+  const minutes = Math.floor(rounded / 60);
+  return `${minutes}:${String(rounded % 60).padStart(2, "0")}`;
+}
+
+// One progress line, e.g. "alpha.zkey  42% 112.0/267.3 MB  8.4 MB/s  ETA 0:18".
+// Rate and ETA are measured over this run only, so a resumed download does
+// not count the bytes it already had.
+export function formatProgress(
+  label: string,
+  done: number,
+  total: number,
+  movedThisRun: number,
+  elapsedMs: number,
+): string {
+  const percent = total > 0 ? Math.floor((done / total) * 100) : 100;
+  const rate = elapsedMs > 0 ? movedThisRun / (elapsedMs / 1000) : 0;
+  const eta =
+    rate > 0 ? `ETA ${formatDuration((total - done) / rate)}` : "ETA -:--";
+  return `${label}  ${percent}% ${(done / MB).toFixed(1)}/${formatBytes(total)}  ${formatBytes(rate)}/s  ${eta}`;
+}
+
+// Progress of one transfer: redrawn in place on a terminal, logged in steps
+// otherwise, e.g. in docker logs
+class TransferProgress {
+  private readonly started = Date.now();
+  private readonly shown: boolean;
+  private readonly tty = Boolean(process.stdout.isTTY);
+  private lastDraw = 0;
+  private lastStep = -1;
+
+  constructor(
+    private readonly label: string,
+    private readonly total: number,
+    // Bytes already present when this run started
+    private readonly initial = 0,
+  ) {
+    this.shown = total >= PROGRESS_MIN_BYTES;
+    if (this.shown && initial > 0) {
+      console.log(
+        `Resuming ${label} at ${formatBytes(initial)} of ${formatBytes(total)}`,
+      );
+    }
+  }
+
+  update(done: number): void {
+    if (!this.shown) {
+      return;
+    }
+    const now = Date.now();
+    const line = formatProgress(
+      this.label,
+      done,
+      this.total,
+      done - this.initial,
+      now - this.started,
+    );
+    if (this.tty) {
+      if (now - this.lastDraw >= PROGRESS_REDRAW_MS || done >= this.total) {
+        this.lastDraw = now;
+        process.stdout.write(`\r${line}\x1b[K`);
+      }
+      return;
+    }
+    const step = Math.floor((done / this.total) * (100 / PROGRESS_LOG_STEP));
+    if (step > this.lastStep) {
+      this.lastStep = step;
+      console.log(line);
+    }
+  }
+
+  // End the line a terminal redraws in place
+  finish(): void {
+    if (this.shown && this.tty) {
+      process.stdout.write("\n");
+    }
+  }
+}
+
+// Object version a partial download belongs to, kept next to it
+interface PartialDownload {
+  key: string;
+  size: number;
+  etag: string | null;
+}
+
+// Download an object to localPath. It is written to partPath first, so an
+// interrupted download, whether retried here or on the next run, continues
+// with a ranged request instead of starting over. localPath only appears once
+// the download is complete.
+export async function downloadFile(
+  key: string,
+  localPath: string,
+  partPath = `${localPath}.part`,
+): Promise<void> {
+  try {
+    await downloadToPart(key, localPath, partPath);
+  } catch (error) {
+    if (!(error instanceof StorageConflictError)) {
+      throw error;
+    }
+    // Replaced during the download: the bytes so far are of the old version
+    console.warn(`⚠️ ${key} changed during the download, starting over`);
+    fs.removeSync(partPath);
+    await downloadToPart(key, localPath, partPath);
+  }
+
+  fs.ensureDirSync(path.dirname(localPath));
+  fs.moveSync(partPath, localPath, { overwrite: true });
+  fs.removeSync(`${partPath}.json`);
+}
+
+// Complete partPath with the version of the object head() reports
+async function downloadToPart(
+  key: string,
+  localPath: string,
+  partPath: string,
+): Promise<void> {
+  const storage = getStorage();
+  const object = await withRetries(`Looking up ${key}`, () =>
+    storage.head(key),
+  );
+  if (!object) {
+    throw new StorageNotFoundError(key);
+  }
+
+  const versionPath = `${partPath}.json`;
+  const version: PartialDownload = {
+    key,
+    size: object.size,
+    etag: object.etag ?? null,
+  };
+
+  // A partial download of another version of the object is no good
+  const previous: PartialDownload | null = fs.existsSync(versionPath)
+    ? fs.readJsonSync(versionPath, { throws: false })
+    : null;
+  if (
+    !previous ||
+    previous.key !== version.key ||
+    previous.size !== version.size ||
+    previous.etag !== version.etag
+  ) {
+    fs.removeSync(partPath);
+  }
+  fs.ensureDirSync(path.dirname(partPath));
+  fs.writeJsonSync(versionPath, version);
+
+  const partialSize = () =>
+    fs.existsSync(partPath) ? fs.statSync(partPath).size : 0;
+  const progress = new TransferProgress(
+    path.basename(localPath),
+    object.size,
+    partialSize(),
+  );
+
+  await withRetries(`Downloading ${key}`, async () => {
+    let offset = partialSize();
+    if (offset > object.size) {
+      fs.removeSync(partPath);
+      offset = 0;
+    }
+    if (offset < object.size || !fs.existsSync(partPath)) {
+      await storage.get(key, partPath, {
+        offset,
+        ifMatch: object.etag,
+        onProgress: (bytes) => progress.update(offset + bytes),
+      });
+    }
+    if (partialSize() !== object.size) {
+      throw new StorageUnavailableError(
+        key,
+        `got ${partialSize()} of ${object.size} bytes`,
+      );
+    }
+  });
+  progress.finish();
+}
+
+// Upload a local file, retrying temporary failures with the whole file
+export async function uploadFile(
+  localPath: string,
+  key: string,
+): Promise<void> {
+  const storage = getStorage();
+  const { size } = fs.statSync(localPath);
+  await withRetries(`Uploading ${key}`, async () => {
+    const progress = new TransferProgress(path.basename(localPath), size);
+    await storage.put(localPath, key, {
+      onProgress: (bytes) => progress.update(bytes),
+    });
+    progress.finish();
+  });
+}
@@ -0,0 +1,120 @@
+import { getCliOption, getGithubUsername, InputRequiredError } from "./cli";
+import {
+  ContributionQueue,
+  QueueError,
+  readQueue,
+  joinQueue,
+  leaveQueue,
+  skipTurn,
+  expireStaleTurn,
+  getTurnDeadline,
+} from "./queue";
+import { checkRequiredEnvVars } from "./utils";
+import {
+  ensureRegisteredParticipant,
+  ensureValidGithubUsername,
+  ParticipantError,
+} from "./participants";
+
+const USAGE = `Usage: npm run queue -- <command> [--user <github-username>]
+
+Commands:
+  join     Join the end of the contribution queue
+  status   Show the queue and your position in it
+  leave    Leave the queue
+  expire   Remove the head of the queue once its turn has timed out
+  skip     Remove a user from the queue (coordinator only, needs
+           CEREMONY_COORDINATOR_TOKEN)`;
+
+function printQueue(queue: ContributionQueue, githubUsername?: string): void {
+  if (queue.entries.length === 0) {
+    console.log("The contribution queue is empty");
+    return;
+  }
+
+  console.log(`\n📋 Contribution queue (${queue.entries.length} waiting):`);
+  queue.entries.forEach((entry, index) => {
+    const isYou =
+      githubUsername &&
+      entry.githubUsername.toLowerCase() === githubUsername.toLowerCase();
+    const deadline = getTurnDeadline(entry);
+    const turn = deadline ? ` - turn until ${deadline.toISOString()}` : "";
+    console.log(
+      `  ${index + 1}. ${entry.githubUsername}${isYou ? " (you)" : ""}${turn}`,
+    );
+  });
+
+  const head = queue.entries[0];
+  const deadline = getTurnDeadline(head);
+  if (deadline && deadline.getTime() < Date.now()) {
+    console.log(
+      `\n⚠️ The turn of ${head.githubUsername} has timed out; run "npm run queue -- expire" to move on`,
+    );
+  }
+}
+
+async function main(): Promise<void> {
+  const command = process.argv[2];
+
+  try {
+    checkRequiredEnvVars();
+
+    switch (command) {
+      case "join": {
+        const githubUsername = getGithubUsername();
+        ensureRegisteredParticipant(githubUsername);
+        const position = await joinQueue(githubUsername);
+        console.log(
+          position === 1
+            ? `✅ ${githubUsername} is at the head of the queue, run "npm run contribute" now`
+            : `✅ ${githubUsername} is at position ${position} in the queue`,
+        );
+        break;
+      }
+      case "status": {
+        printQueue(
+          await readQueue(),
+          getCliOption("user") || process.env.GITHUB_USERNAME,
+        );
+        break;
+      }
+      case "leave": {
+        const githubUsername = getGithubUsername();
+        ensureValidGithubUsername(githubUsername);
+        await leaveQueue(githubUsername);
+        console.log(`✅ ${githubUsername} left the queue`);
+        break;
+      }
+      case "expire": {
+        const expired = await expireStaleTurn();
+        console.log(`✅ Expired the turn of ${expired.githubUsername}`);
+        printQueue(await readQueue());
+        break;
+      }
+      case "skip": {
+        const githubUsername = getGithubUsername();
+        ensureValidGithubUsername(githubUsername);
+        await skipTurn(githubUsername, process.env.CEREMONY_COORDINATOR_TOKEN);
+        console.log(`✅ Skipped ${githubUsername}`);
+        printQueue(await readQueue());
+        break;
+      }
+      default:
+        console.log(USAGE);
+        process.exit(command ? 1 : 0);
+    }
+  } catch (error) {
+    if (
+      error instanceof QueueError ||
+      error instanceof InputRequiredError ||
+      error instanceof ParticipantError
+    ) {
+      console.error(`❌ ${error.message}`);
+    } else {
+      console.error("Error while updating the contribution queue:", error);
+    }
+    process.exit(1);
+  }
+}
+
+main();
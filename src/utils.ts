@@ -1,14 +1,37 @@
 import * as fs from "fs-extra";
 import * as path from "path";
-import { execSync } from "child_process";
 import dotenv from "dotenv";
-import { S3_CONTRIBUTION_DIR } from "./constants";
+import { getCeremonyConfig, isFinalFolder } from "./config";
+import { getStorage, isLocalStorage } from "./storage";
+import { HashAlgorithm, hashFileWith, sha256File } from "./hashing";
+import {
+  downloadFile,
+  TransferError,
+  uploadFile,
+  withRetries,
+} from "./transfer";
+import {
+  getFilesRecursively,
+  parseExpectedHashes,
+  readCommittedAttestation,
+  IntegrityError,
+  ATTESTATION_FILE,
+  MANIFEST_FILE,
+} from "./manifest";
 
 // Load environment variables from .env file - this works in local dev but may not in Docker
 dotenv.config();
 
 // Function to check required environment variables
 export function checkRequiredEnvVars(): void {
+  // A local storage directory needs no AWS configuration at all
+  if (isLocalStorage()) {
+    console.log(
+      `Using local storage directory: ${process.env.CEREMONY_STORAGE_DIR}`,
+    );
+    return;
+  }
+
   const requiredVars = [
     "AWS_ACCESS_KEY_ID",
     "AWS_SECRET_ACCESS_KEY",
@@ -50,20 +73,6 @@ export function checkRequiredEnvVars(): void {
 
 export const contributionRootFolder = "./contributions";
 
-// Get S3 configuration from environment variables
-const S3_BUCKET_PATH = process.env.S3BUCKET!;
-export const S3_BUCKET_NAME = S3_BUCKET_PATH.replace("s3://", "");
-export const AWS_REGION = process.env.AWS_DEFAULT_REGION!;
-export const AWS_ENDPOINT = process.env.AWS_ENDPOINT_URL!;
-
-// Use environment variables for AWS credentials
-const AWS_ENV_VARS = {
-  AWS_ACCESS_KEY_ID: process.env.AWS_ACCESS_KEY_ID,
-  AWS_SECRET_ACCESS_KEY: process.env.AWS_SECRET_ACCESS_KEY,
-  AWS_DEFAULT_REGION: AWS_REGION,
-  AWS_ENDPOINT_URL: AWS_ENDPOINT,
-};
-
 export function getDirectories(source: string): string[] {
   return fs
     .readdirSync(source, { withFileTypes: true })
@@ -76,6 +85,14 @@ export function getZkeyFiles(directory: string): string[] {
   return fs.readdirSync(zkFilesFolder).filter((file) => file.endsWith(".zkey"));
 }
 
+// Circuits from the ceremony config that have no zkey in the folder
+export function getMissingCircuits(directory: string): string[] {
+  const zkeyFiles = getZkeyFiles(directory);
+  return getCeremonyConfig().circuits.filter(
+    (circuit) => !zkeyFiles.includes(`${circuit}.zkey`),
+  );
+}
+
 export function getContributionFolders(): string[] {
   const folders = getDirectories(contributionRootFolder);
   const contributionFolders = folders.filter((f) => f.match(/^\d{4}_/));
@@ -96,197 +113,561 @@ export function getCircuitR1cs(initialFolder: string): string {
   return path.join(initialFolder, r1csFiles[0]);
 }
 
-// Check if AWS CLI is available
-export function isAwsCliAvailable(): boolean {
-  try {
-    execSync("aws --version", { stdio: "ignore" });
-    return true;
-  } catch (error) {
-    return false;
+// Version of the installed snarkjs, read next to its entry point as the
+// package does not export its package.json
+export function getSnarkjsVersion(): string {
+  const packageJson = path.join(
+    path.dirname(require.resolve("snarkjs")),
+    "..",
+    "package.json",
+  );
+  return (fs.readJsonSync(packageJson) as { version: string }).version;
+}
+
+// Files whose SHA-256 does not match are downloaded this many times in total
+const DOWNLOAD_ATTEMPTS = 3;
+
+// Files that failed an integrity check are moved here for inspection
+export const quarantineFolder = path.join(
+  contributionRootFolder,
+  ".quarantine",
+);
+
+function quarantineFile(filePath: string): string {
+  const relativePath = path.relative(contributionRootFolder, filePath);
+  const base = path.join(quarantineFolder, `${relativePath}.${Date.now()}`);
+  let target = base;
+  for (let i = 1; fs.existsSync(target); i++) {
+    target = `${base}-${i}`;
+  }
+  fs.ensureDirSync(path.dirname(target));
+  fs.moveSync(filePath, target);
+  return target;
+}
+
+// Interrupted downloads are kept here until they are resumed
+const partialFolder = path.join(contributionRootFolder, ".partial");
+
+// A hash a file must have
+interface ExpectedDigest {
+  algorithm: HashAlgorithm;
+  hash: string;
+}
+
+const HASH_NAMES: Record<HashAlgorithm, string> = {
+  sha256: "SHA-256",
+  blake2b512: "Blake2b-512",
+};
+
+function describeDigest({ algorithm, hash }: ExpectedDigest): string {
+  return `${HASH_NAMES[algorithm]} ${hash}`;
+}
+
+// How the file differs from the first expected hash it does not match, or
+// null when it matches all of them
+async function findDigestMismatch(
+  filePath: string,
+  expected: ExpectedDigest[],
+): Promise<string | null> {
+  if (expected.length === 0) {
+    return null;
   }
+  const actual = await hashFileWith(
+    filePath,
+    expected.map(({ algorithm }) => algorithm),
+  );
+  const mismatch = expected.find(
+    ({ algorithm, hash }) => actual[algorithm] !== hash,
+  );
+  return mismatch
+    ? `${HASH_NAMES[mismatch.algorithm]} ${actual[mismatch.algorithm]}, expected ${mismatch.hash}`
+    : null;
 }
 
-// Run AWS CLI commands with environment variables
-function runAwsCommand(
-  command: string,
-  stdio: "inherit" | "pipe" | "ignore" = "inherit",
-): string {
-  if (!isAwsCliAvailable()) {
+// Download an object; when its hashes are known, quarantine mismatching
+// copies and retry, then fail hard
+async function downloadWithIntegrityCheck(
+  key: string,
+  localFile: string,
+  expected: ExpectedDigest[],
+): Promise<void> {
+  const partPath = path.join(
+    partialFolder,
+    `${path.relative(contributionRootFolder, localFile)}.part`,
+  );
+  for (let attempt = 1; attempt <= DOWNLOAD_ATTEMPTS; attempt++) {
+    await downloadFile(key, localFile, partPath);
+
+    const mismatch = await findDigestMismatch(localFile, expected);
+    if (!mismatch) {
+      return;
+    }
+    const target = quarantineFile(localFile);
     console.warn(
-      "AWS CLI not available or not compatible with current environment.",
+      `⚠️ ${key} has ${mismatch} (attempt ${attempt}/${DOWNLOAD_ATTEMPTS}). Quarantined as ${target}`,
+    );
+  }
+
+  throw new IntegrityError(
+    `${key} failed the integrity check ${DOWNLOAD_ATTEMPTS} times (expected ${expected.map(describeDigest).join(", ")}). ` +
+      `The downloaded copies are kept in ${quarantineFolder}.`,
+  );
+}
+
+// OS metadata files, never synced in either direction
+const IGNORED_FILES = [".DS_Store", "Thumbs.db", ".directory"];
+
+function isIgnoredFile(file: string): boolean {
+  const name = path.posix.basename(file);
+  return IGNORED_FILES.includes(name) || name.startsWith("._");
+}
+
+// pull brings a local folder in line with storage, push the other way round
+export type SyncDirection = "pull" | "push";
+
+export interface SyncOptions {
+  direction: SyncDirection;
+  // Also delete the files the target has and the source does not
+  delete?: boolean;
+  // Only plan and report the actions
+  dryRun?: boolean;
+}
+
+// A file on both sides whose size differs, or whose local SHA-256 is not the
+// one storage records for it
+export interface SyncChange {
+  file: string;
+  reason: "size" | "hash";
+}
+
+// How a folder below ./contributions differs from its storage prefix. Paths
+// are relative to the folder; OS metadata files are left out.
+export interface SyncDiff {
+  folder: string;
+  remoteOnly: string[];
+  localOnly: string[];
+  changed: SyncChange[];
+  unchanged: string[];
+}
+
+export interface SyncAction {
+  type: "download" | "upload" | "delete";
+  file: string;
+  reason: "missing" | "size" | "hash" | "extra";
+  // SHA-256 storage records for a file to download
+  sha256?: string;
+}
+
+export interface SyncPlan {
+  direction: SyncDirection;
+  diff: SyncDiff;
+  actions: SyncAction[];
+}
+
+export interface SyncResult extends SyncPlan {
+  dryRun: boolean;
+  // Actions that failed; an IntegrityError is thrown instead
+  failed: { action: SyncAction; error: string }[];
+}
+
+// SHA-256 of the files of a folder as recorded by its MANIFEST.json and
+// attestation.json in storage. A committed attestation.json takes the place
+// of the one in storage, which must then agree with it, so storage cannot
+// vouch for its own files.
+async function readRecordedHashes(
+  folderName: string,
+  storedFiles: Set<string>,
+): Promise<Map<string, string>> {
+  const storage = getStorage();
+  const prefix = `${asStorageKey(folderName)}/`;
+  const localPath = path.join(contributionRootFolder, folderName);
+  const readRecord = async (file: string) =>
+    storedFiles.has(file)
+      ? (
+          await withRetries(`Reading ${prefix}${file}`, () =>
+            storage.readText(`${prefix}${file}`),
+          )
+        )?.content
+      : undefined;
+  const storedAttestation = await readRecord(ATTESTATION_FILE);
+  const committedAttestation = readCommittedAttestation(localPath);
+  if (committedAttestation !== undefined && storedAttestation !== undefined) {
+    const committed = parseExpectedHashes(
+      folderName,
+      undefined,
+      committedAttestation,
     );
-    if (command.includes("s3 cp") && command.includes("--recursive")) {
-      throw new Error(
-        "AWS CLI not available or not compatible with current environment.",
+    const stored = parseExpectedHashes(
+      folderName,
+      undefined,
+      storedAttestation,
+    );
+    const differing = [...new Set([...committed.keys(), ...stored.keys()])]
+      .filter((file) => committed.get(file) !== stored.get(file))
+      .sort();
+    if (differing.length > 0) {
+      throw new IntegrityError(
+        `${ATTESTATION_FILE} of ${folderName} in storage does not match the committed one for: ${differing.join(", ")}`,
       );
     }
-    return "";
   }
+  return parseExpectedHashes(
+    folderName,
+    await readRecord(MANIFEST_FILE),
+    committedAttestation ?? storedAttestation,
+  );
+}
 
-  const envVars = { ...process.env, ...AWS_ENV_VARS };
+// Same as readRecordedHashes, for callers that have not listed the folder
+export async function getRecordedHashes(
+  folderName: string,
+): Promise<Map<string, string>> {
+  const prefix = `${asStorageKey(folderName)}/`;
+  const objects = await withRetries(`Listing ${prefix}`, () =>
+    getStorage().list(prefix),
+  );
+  return readRecordedHashes(
+    folderName,
+    new Set(objects.map((object) => object.key.slice(prefix.length))),
+  );
+}
 
-  try {
-    console.log(`Runing: ${command}`);
-    return execSync(command, { env: envVars, stdio, encoding: "utf8" });
-  } catch (error) {
-    if (stdio === "ignore") {
-      return "";
+// Compare a local folder with its storage prefix by name and size, and by
+// SHA-256 wherever one is recorded. Also returns the recorded hashes.
+async function diffFolder(
+  folderName: string,
+): Promise<{ diff: SyncDiff; recorded: Map<string, string> }> {
+  const storage = getStorage();
+  const prefix = `${asStorageKey(folderName)}/`;
+  const localPath = path.join(contributionRootFolder, folderName);
+
+  const remoteSizes = new Map<string, number>();
+  const objects = await withRetries(`Listing ${prefix}`, () =>
+    storage.list(prefix),
+  );
+  for (const object of objects) {
+    const file = object.key.slice(prefix.length);
+    if (!isIgnoredFile(file)) {
+      remoteSizes.set(file, object.size);
+    }
+  }
+  const recorded = await readRecordedHashes(
+    folderName,
+    new Set(remoteSizes.keys()),
+  );
+
+  const localFiles = new Set(
+    fs.existsSync(localPath)
+      ? getFilesRecursively(localPath).filter((file) => !isIgnoredFile(file))
+      : [],
+  );
+
+  const diff: SyncDiff = {
+    folder: folderName,
+    remoteOnly: [],
+    localOnly: [...localFiles].filter((file) => !remoteSizes.has(file)).sort(),
+    changed: [],
+    unchanged: [],
+  };
+  for (const file of [...remoteSizes.keys()].sort()) {
+    const filePath = path.join(localPath, file);
+    const expectedSha256 = recorded.get(file);
+    if (!localFiles.has(file)) {
+      diff.remoteOnly.push(file);
+    } else if (fs.statSync(filePath).size !== remoteSizes.get(file)) {
+      diff.changed.push({ file, reason: "size" });
+    } else if (
+      expectedSha256 &&
+      (await sha256File(filePath)) !== expectedSha256
+    ) {
+      diff.changed.push({ file, reason: "hash" });
+    } else {
+      diff.unchanged.push(file);
     }
-    console.warn(`Command failed: ${command}`);
-    console.warn(
-      "This may be due to architecture compatibility issues in Docker.",
-    );
-    return "";
   }
+  return { diff, recorded };
 }
 
-// S3 functions for downloading and uploading files
-export function downloadFromS3(prefix?: string): boolean {
-  try {
-    const s3Path = asS3Path(prefix || "/");
-    const localPath = prefix
-      ? path.join(contributionRootFolder, prefix)
-      : contributionRootFolder;
+// Work out what syncFolder would do, without changing anything
+export async function planSync(
+  folderName: string,
+  options: SyncOptions,
+): Promise<SyncPlan> {
+  const { diff, recorded } = await diffFolder(folderName);
+  const pull = options.direction === "pull";
+  const transfer: SyncAction["type"] = pull ? "download" : "upload";
+  const sourceOnly = pull ? diff.remoteOnly : diff.localOnly;
+  const targetOnly = pull ? diff.localOnly : diff.remoteOnly;
+
+  const actions: SyncAction[] = [
+    ...sourceOnly.map((file): SyncAction => ({
+      type: transfer,
+      file,
+      reason: "missing",
+    })),
+    ...diff.changed.map(({ file, reason }): SyncAction => ({
+      type: transfer,
+      file,
+      reason,
+    })),
+  ];
+  // An empty source more likely means a wrong folder name than an empty
+  // folder, so nothing is deleted to match it
+  const sourceFiles =
+    sourceOnly.length + diff.changed.length + diff.unchanged.length;
+  if (options.delete && sourceFiles > 0) {
+    for (const file of targetOnly) {
+      actions.push({ type: "delete", file, reason: "extra" });
+    }
+  }
+  if (pull) {
+    for (const action of actions) {
+      action.sha256 = recorded.get(action.file);
+    }
+  }
+  return { direction: options.direction, diff, actions };
+}
 
-    // Ensure the local directory exists
-    fs.ensureDirSync(localPath);
+const ACTION_SYMBOLS: Record<SyncAction["type"], string> = {
+  download: "⬇️",
+  upload: "⬆️",
+  delete: "🗑️",
+};
 
-    if (!isAwsCliAvailable()) {
-      console.warn("AWS CLI not available. Skipping S3 download.");
-      return false;
-    }
+function printSyncPlan(plan: SyncPlan, dryRun: boolean): void {
+  const { diff } = plan;
+  const route =
+    plan.direction === "pull" ? "storage → local" : "local → storage";
+  console.log(
+    `Syncing ${diff.folder} (${route}): ${diff.unchanged.length} unchanged, ${plan.actions.length} to do${dryRun ? " (dry run)" : ""}`,
+  );
+  for (const action of plan.actions) {
+    console.log(
+      `  ${ACTION_SYMBOLS[action.type]} ${action.type} ${action.file} (${action.reason})`,
+    );
+  }
 
-    console.log(`Downloading files from ${s3Path} to ${localPath}...`);
-    const result = runAwsCommand(
-      `aws s3 cp ${s3Path} ${localPath} --recursive`,
+  const left = (plan.direction === "pull" ? diff.localOnly : diff.remoteOnly)
+    .length;
+  if (left > 0 && !plan.actions.some((action) => action.type === "delete")) {
+    console.log(
+      `  ${left} files exist ${plan.direction === "pull" ? "locally but not in storage" : "in storage but not locally"} and are left alone`,
     );
+  }
+}
 
-    if (result !== "") {
-      console.log("Download complete!");
-      return true;
-    } else {
+async function applySyncAction(
+  folderName: string,
+  direction: SyncDirection,
+  action: SyncAction,
+): Promise<void> {
+  const storage = getStorage();
+  const key = `${asStorageKey(folderName)}/${action.file}`;
+  const localFile = path.join(contributionRootFolder, folderName, action.file);
+
+  if (action.type === "upload") {
+    await uploadFile(localFile, key);
+  } else if (action.type === "download") {
+    // A local copy that differs is kept for inspection, not overwritten
+    if (action.reason !== "missing") {
+      const target = quarantineFile(localFile);
       console.warn(
-        "S3 download was not successful. Proceeding with local files only.",
+        `⚠️ Local ${folderName}/${action.file} does not match storage (${action.reason === "hash" ? "SHA-256" : "size"}). Quarantined as ${target}`,
       );
-      return false;
     }
-  } catch (error) {
-    console.error("Error downloading files from S3:", error);
-    console.warn("Proceeding with local files only.");
-    return false;
+    await downloadWithIntegrityCheck(
+      key,
+      localFile,
+      action.sha256 ? [{ algorithm: "sha256", hash: action.sha256 }] : [],
+    );
+  } else if (direction === "pull") {
+    fs.removeSync(localFile);
+  } else {
+    await storage.delete(key);
   }
 }
 
-export function uploadToS3(folderName: string): boolean {
-  try {
-    if (!isAwsCliAvailable()) {
-      console.warn("AWS CLI not available. Skipping S3 upload.");
-      return false;
+// Bring a folder below ./contributions and its storage prefix in line. Files
+// storage records a SHA-256 for are checked on download; a persistent
+// mismatch throws an IntegrityError. Other failed actions are reported in
+// the result, so the caller decides whether it can do without them.
+export async function syncFolder(
+  folderName: string,
+  options: SyncOptions,
+): Promise<SyncResult> {
+  const plan = await planSync(folderName, options);
+  const dryRun = options.dryRun ?? false;
+  printSyncPlan(plan, dryRun);
+
+  const result: SyncResult = { ...plan, dryRun, failed: [] };
+  if (dryRun) {
+    return result;
+  }
+  for (const action of plan.actions) {
+    try {
+      await applySyncAction(folderName, plan.direction, action);
+    } catch (error) {
+      if (error instanceof IntegrityError) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(
+        `❌ Could not ${action.type} ${folderName}/${action.file}: ${message}`,
+      );
+      result.failed.push({ action, error: message });
     }
+  }
+  return result;
+}
 
+export async function uploadToS3(folderName: string): Promise<boolean> {
+  try {
     const localPath = path.join(contributionRootFolder, folderName);
-    const s3Path = asS3Path(folderName);
-
-    console.log(`Uploading files from ${localPath} to ${s3Path}...`);
-    const result = runAwsCommand(
-      `aws s3 cp ${localPath} ${s3Path} --recursive`,
+    console.log(
+      `Uploading files from ${localPath} to ${getStorage().uri(asStorageKey(folderName))}...`,
     );
+    const { diff, failed } = await syncFolder(folderName, {
+      direction: "push",
+    });
 
-    if (result !== "") {
-      console.log("Upload complete!");
-      return true;
-    } else {
-      console.warn("S3 upload was not successful.");
+    if (
+      diff.localOnly.length + diff.changed.length + diff.unchanged.length ===
+      0
+    ) {
+      console.warn(`Storage upload was not successful: ${localPath} is empty.`);
+      return false;
+    }
+    if (failed.length > 0) {
+      console.warn(
+        `Storage upload was not successful: ${failed.length} files failed.`,
+      );
       return false;
     }
+    console.log("Upload complete!");
+    return true;
   } catch (error) {
-    console.error("Error uploading files to S3:", error);
+    console.error("Error uploading files to storage:", error);
     return false;
   }
 }
 
-// Function to download the latest contribution folder
-export function downloadLatestContribution(): string | null {
+// Check that storage holds a local folder as it is, e.g. after uploading it
+export async function verifyStorageCopy(folderName: string): Promise<boolean> {
   try {
-    if (!isAwsCliAvailable()) {
-      console.warn("AWS CLI not available. Skipping S3 download check.");
-      return null;
+    const { diff } = await diffFolder(folderName);
+    const differences = [
+      ...diff.localOnly.map((file) => `${file}: missing in storage`),
+      ...diff.remoteOnly.map((file) => `${file}: only in storage`),
+      ...diff.changed.map(
+        ({ file, reason }) =>
+          `${file}: ${reason === "hash" ? "SHA-256" : "size"} differs`,
+      ),
+    ];
+    if (differences.length > 0) {
+      console.warn(`⚠️ Storage does not match the local ${folderName}:`);
+      differences.forEach((difference) => console.warn(`  - ${difference}`));
+      return false;
     }
+    console.log(
+      `✅ Storage holds all ${diff.unchanged.length} files of ${folderName}`,
+    );
+    return true;
+  } catch (error) {
+    if (error instanceof IntegrityError) {
+      throw error;
+    }
+    console.error("Error comparing the storage copy with local files:", error);
+    return false;
+  }
+}
 
-    // List folders in S3 bucket and get the latest contribution folder
-    const output = runAwsCommand(
-      `aws s3 ls ${asS3Path("/")} | grep -o "[0-9]\\{4\\}_[^/]*/" | sort | tail -1`,
-      "pipe",
+// Contribution folder names present in storage, in order
+export async function listStorageContributionFolders(): Promise<string[]> {
+  const objects = await withRetries("Listing the contribution folders", () =>
+    getStorage().list(asStorageKey("/")),
+  );
+  return [
+    ...new Set(
+      objects
+        .map((object) => object.key.slice(asStorageKey("/").length))
+        .map((key) => key.split("/")[0])
+        .filter((folder) => /^\d{4}_/.test(folder)),
+    ),
+  ].sort();
+}
+
+// The latest folder in storage is the parent of the new contribution
+export async function getParentFolder(): Promise<string> {
+  const storageFolders = await listStorageContributionFolders();
+  const { initialFolder } = getCeremonyConfig();
+  if (storageFolders.length === 0) {
+    throw new Error(
+      `Initial setup folder '${initialFolder}' not found. Please ensure it exists with the initial circuit files.\n` +
+        "This could be due to:\n" +
+        "1. Missing AWS credentials - check your .env file\n" +
+        "2. The initial setup hasn't been uploaded to storage yet\n" +
+        "3. The S3 bucket or CEREMONY_STORAGE_DIR configuration is incorrect\n" +
+        "Please refer to the README.md troubleshooting section for more information.",
     );
+  }
 
-    if (!output) {
-      console.log(
-        "No contribution folders found in S3 bucket or S3 access failed.",
-      );
-      return null;
-    }
+  const lastFolder = storageFolders[storageFolders.length - 1];
+  if (isFinalFolder(lastFolder)) {
+    throw new Error(
+      `The ceremony was finalized in ${lastFolder}; no more contributions are accepted.`,
+    );
+  }
+  return lastFolder;
+}
 
-    // Remove trailing slash
-    const folderName = output.trim().replace(/\/$/, "");
-    console.log(`Latest contribution folder in S3: ${folderName}`);
+// Whether a folder below ./contributions holds at least one zkey
+function hasZkeyFiles(folderName: string): boolean {
+  try {
+    return getZkeyFiles(folderName).length > 0;
+  } catch (error) {
+    return false;
+  }
+}
 
-    // Check if the folder already exists locally
-    const localPath = path.join(contributionRootFolder, folderName);
+export async function downloadLatestContribution(): Promise<string | null> {
+  try {
+    // List folders in storage and get the latest contribution folder
+    const folders = await listStorageContributionFolders();
 
-    // Function to check if a folder has the required zkey files
-    function hasRequiredZkeyFiles(folderPath: string): boolean {
-      try {
-        const zkeyFiles = getZkeyFiles(path.basename(folderPath));
-        return zkeyFiles.length > 0;
-      } catch (error) {
-        return false;
-      }
+    if (folders.length === 0) {
+      console.log("No contribution folders found in storage.");
+      return null;
     }
 
-    // Check if the folder exists and has at least some zkey files
-    if (
-      fs.existsSync(localPath) &&
-      fs.readdirSync(localPath).length > 0 &&
-      hasRequiredZkeyFiles(localPath)
-    ) {
-      console.log(
-        `Folder ${folderName} already exists locally with required zkey files. Skipping download.`,
-      );
+    const folderName = folders[folders.length - 1];
+    console.log(`Latest contribution folder in storage: ${folderName}`);
 
-      // Even if folder exists, we should cross-check to make sure all files are present
-      // crossCheckFilesWithS3(folderName);
-    } else {
-      // Download the folder if it doesn't exist locally or doesn't have required files
-      console.log(
-        `Folder ${folderName} doesn't exist locally or is missing required zkey files. Downloading...`,
+    // Fetches what is missing locally and replaces local copies that differ.
+    // An incomplete folder would only fail later, in snarkjs.
+    const { failed } = await syncFolder(folderName, { direction: "pull" });
+    if (failed.length > 0) {
+      throw new TransferError(
+        `Could not download ${failed.map(({ action }) => action.file).join(", ")} of ${folderName}: ${failed[0].error}`,
       );
-      const success = downloadFromS3(folderName);
-      if (!success) {
-        console.warn(
-          `Could not download ${folderName} from S3. Will proceed with local files only.`,
-        );
-      } else {
-        // Verify the downloaded folder has the required zkey files
-        if (!hasRequiredZkeyFiles(localPath)) {
-          console.warn(
-            `Downloaded folder ${folderName} is missing required zkey files.`,
-          );
-        }
-      }
+    }
+    if (!hasZkeyFiles(folderName)) {
+      console.warn(`Folder ${folderName} is missing required zkey files.`);
     }
 
     return folderName;
   } catch (error) {
-    console.error("Error getting latest contribution from S3:", error);
+    if (error instanceof IntegrityError || error instanceof TransferError) {
+      throw error;
+    }
+    console.error("Error getting latest contribution from storage:", error);
     console.warn("Will proceed with local files only.");
     return null;
   }
 }
 
 // Download initial setup if not available locally
-export function ensureInitialSetup(): void {
-  const initialFolder = "0000_initial";
-  const localPath = path.join(contributionRootFolder, initialFolder);
+export async function ensureInitialSetup(): Promise<void> {
+  const initialFolder = getCeremonyConfig().initialFolder;
 
   // Create contributions root directory if it doesn't exist
   fs.ensureDirSync(contributionRootFolder);
@@ -300,237 +681,80 @@ export function ensureInitialSetup(): void {
         return false;
       }
 
+      const missingCircuits = getMissingCircuits(initialFolder);
+      if (missingCircuits.length > 0) {
+        console.warn(
+          `Initial folder is missing zkeys for: ${missingCircuits.join(", ")}`,
+        );
+        return false;
+      }
+
       return true;
     } catch (error) {
       return false;
     }
   }
 
-  // Check if initial folder exists AND has required files
-  if (!fs.existsSync(localPath) || !hasRequiredInitialFiles()) {
-    console.log(
-      `Initial setup folder not found locally or missing required files. Attempting to download from S3...`,
-    );
-    const success = downloadFromS3(initialFolder);
+  // A complete local copy will do when storage cannot be reached
+  try {
+    await syncFolder(initialFolder, { direction: "pull" });
+  } catch (error) {
+    if (error instanceof IntegrityError) {
+      throw error;
+    }
+    console.error("Error syncing the initial setup with storage:", error);
+  }
 
-    if (!success || !hasRequiredInitialFiles()) {
-      console.warn(`
-⚠️  WARNING: Could not download initial setup from S3 or initial setup is missing required files.
+  if (!hasRequiredInitialFiles()) {
+    console.warn(`
+⚠️  WARNING: Could not download initial setup from storage or initial setup is missing required files.
 If this is your first time running the tool, you need either:
-1. A working AWS configuration to download the initial setup from S3
-2. The initial setup files in ./contributions/0000_initial including .r1cs and .zkey files
+1. A working storage configuration (AWS or CEREMONY_STORAGE_DIR) to download the initial setup
+2. The initial setup files in ./contributions/${initialFolder} including .r1cs and .zkey files
 `);
-      throw new Error("Cannot proceed without proper initial setup");
-    }
-  } else {
-    console.log(`Initial setup folder exists locally with required files.`);
-    // Even if folder exists with basic required files, cross-check to ensure all files are present
-    crossCheckFilesWithS3(initialFolder);
+    throw new Error("Cannot proceed without proper initial setup");
   }
+  console.log(`Initial setup folder exists locally with required files.`);
 }
 
-// Check if files match between S3 and local directories
-export function crossCheckFilesWithS3(folderName: string): boolean {
-  if (!isAwsCliAvailable()) {
-    console.warn("AWS CLI not available. Skipping S3 file cross-check.");
-    return false;
+// Function to ensure the PTAU file is available
+export async function ensurePtauFile(): Promise<string> {
+  const ptau = getCeremonyConfig().ptau;
+  const ptauFileName = ptau.file;
+  const ptauLocalPath = path.join(contributionRootFolder, ptauFileName);
+  const expected: ExpectedDigest[] = [];
+  if (ptau.sha256) {
+    expected.push({ algorithm: "sha256", hash: ptau.sha256 });
+  }
+  if (ptau.blake2b512) {
+    expected.push({ algorithm: "blake2b512", hash: ptau.blake2b512 });
   }
 
-  try {
-    console.log(
-      `Cross-checking files between S3 and local for ${folderName}...`,
-    );
-
-    // Get list of files from S3
-    const s3FilesOutput = runAwsCommand(
-      `aws s3 ls ${asS3Path(folderName)} --recursive | awk '{print $4}' | sort`,
-      "pipe",
-    );
-
-    if (!s3FilesOutput) {
-      console.warn(`No files found in S3 for folder ${folderName}`);
-      return false;
-    }
-
-    // Parse S3 files (remove the folder prefix from each file)
-    const s3Files = s3FilesOutput
-      .trim()
-      .split("\n")
-      .map((file) => file.replace(`${S3_CONTRIBUTION_DIR}/${folderName}/`, ""))
-      .filter(Boolean);
-
-    // Get local files
-    const localPath = path.join(contributionRootFolder, folderName);
-    if (!fs.existsSync(localPath)) {
-      console.warn(`Local folder ${folderName} does not exist`);
-      return false;
-    }
-
-    const getFilesRecursively = (
-      dir: string,
-      baseDir: string = dir,
-    ): string[] => {
-      let results: string[] = [];
-      const files = fs.readdirSync(dir);
-
-      files.forEach((file) => {
-        const fullPath = path.join(dir, file);
-        const relativePath = path.relative(baseDir, fullPath);
-
-        if (fs.statSync(fullPath).isDirectory()) {
-          results = results.concat(getFilesRecursively(fullPath, baseDir));
-        } else {
-          results.push(relativePath);
-        }
-      });
-
-      return results;
-    };
-
-    const localFiles = getFilesRecursively(localPath).sort();
-
-    // List of OS-specific files to ignore
-    const ignoreFiles = [".DS_Store", "Thumbs.db", ".directory", "._*"];
-
-    // Function to check if a file should be ignored
-    function shouldIgnoreFile(file: string): boolean {
-      return ignoreFiles.some((pattern) => {
-        if (pattern.endsWith("*")) {
-          return file.startsWith(pattern.slice(0, -1));
-        }
-        return file === pattern;
-      });
-    }
-
-    // Filter out ignored files from both lists
-    const filteredS3Files = s3Files.filter((file) => !shouldIgnoreFile(file));
-    const filteredLocalFiles = localFiles.filter(
-      (file) => !shouldIgnoreFile(file),
-    );
-
-    // Find missing files (ignoring OS-specific files)
-    const missingLocalFiles = filteredS3Files.filter(
-      (file) => !filteredLocalFiles.includes(file),
-    );
-    const missingS3Files = filteredLocalFiles.filter(
-      (file) => !filteredS3Files.includes(file),
-    );
-
-    if (missingLocalFiles.length > 0) {
-      console.warn(
-        `Missing ${missingLocalFiles.length} files locally that exist in S3 for ${folderName}:`,
-      );
-      missingLocalFiles.forEach((file) => console.warn(`  - ${file}`));
-
-      // Download missing files
-      const shouldDownload = missingLocalFiles.some(
-        (file) => file.endsWith(".zkey") || file.endsWith(".r1cs"),
-      );
-      if (shouldDownload) {
-        console.log(
-          `Attempting to download missing files for ${folderName}...`,
-        );
-
-        // Create directory if it doesn't exist
-        fs.ensureDirSync(localPath);
-
-        // Download each missing file
-        let downloadedCount = 0;
-        for (const file of missingLocalFiles) {
-          const s3Path = `${S3_BUCKET_PATH}/${folderName}/${file}`;
-          const localFilePath = path.join(localPath, file);
-
-          // Make sure the directory for the file exists
-          fs.ensureDirSync(path.dirname(localFilePath));
-
-          console.log(`Downloading ${file}...`);
-          const downloadCmd = `aws s3 cp ${s3Path} ${localFilePath}`;
-          try {
-            runAwsCommand(downloadCmd);
-            downloadedCount++;
-          } catch (error) {
-            console.error(`Failed to download ${file}: ${error}`);
-          }
-        }
-
-        console.log(
-          `Downloaded ${downloadedCount}/${missingLocalFiles.length} missing files.`,
-        );
-      }
-    }
-
-    // Report missing S3 files (ignoring OS-specific files)
-    if (missingS3Files.length > 0) {
-      console.log(
-        `${missingS3Files.length} files exist locally but not in S3 for ${folderName} (OS-specific files ignored)`,
-      );
-    }
-
-    // Special check for zkey files
-    const s3ZkeyFiles = filteredS3Files.filter((file) =>
-      file.endsWith(".zkey"),
-    );
-    const localZkeyFiles = filteredLocalFiles.filter((file) =>
-      file.endsWith(".zkey"),
-    );
-
-    if (s3ZkeyFiles.length > localZkeyFiles.length) {
+  // A local copy that does not match the recorded hashes is replaced
+  if (fs.existsSync(ptauLocalPath)) {
+    const mismatch = await findDigestMismatch(ptauLocalPath, expected);
+    if (mismatch) {
+      const target = quarantineFile(ptauLocalPath);
       console.warn(
-        `Missing ${s3ZkeyFiles.length - localZkeyFiles.length} zkey files locally`,
+        `⚠️ Local PTAU file has ${mismatch}. Quarantined as ${target}`,
       );
-    } else if (
-      localZkeyFiles.length === s3ZkeyFiles.length &&
-      missingLocalFiles.some((file) => file.endsWith(".zkey"))
-    ) {
-      console.log(`All zkey files are now available locally.`);
     }
-
-    // Re-check after download
-    if (missingLocalFiles.length > 0) {
-      const newLocalFiles = getFilesRecursively(localPath)
-        .filter((file) => !shouldIgnoreFile(file))
-        .sort();
-
-      const stillMissing = filteredS3Files.filter(
-        (file) => !newLocalFiles.includes(file),
-      );
-
-      if (stillMissing.length > 0) {
-        console.warn(
-          `Still missing ${stillMissing.length} files after download attempt.`,
-        );
-        return false;
-      } else {
-        console.log(`All required files are now present locally.`);
-        return true;
-      }
-    }
-
-    return missingLocalFiles.length === 0;
-  } catch (error) {
-    console.error("Error cross-checking files with S3:", error);
-    return false;
   }
-}
-
-// Function to ensure the PTAU file is available
-export function ensurePtauFile(): string {
-  const ptauFileName = "powersOfTau28_hez_final_18.ptau";
-  const ptauLocalPath = path.join(contributionRootFolder, ptauFileName);
 
   // Check if PTAU file exists locally
   if (!fs.existsSync(ptauLocalPath)) {
-    console.log(`PTAU file not found locally. Downloading from S3...`);
+    console.log(`PTAU file not found locally. Downloading from storage...`);
     try {
       // Ensure the directory exists
       fs.ensureDirSync(contributionRootFolder);
 
-      // Use runAwsCommand for consistency
-      runAwsCommand(
-        `aws s3 cp ${S3_BUCKET_PATH}/${ptauFileName} ${ptauLocalPath}`,
-      );
+      // The PTAU file lives at the storage root, outside the ceremony prefix
+      await downloadWithIntegrityCheck(ptauFileName, ptauLocalPath, expected);
       console.log(`✅ PTAU file downloaded successfully!`);
     } catch (error) {
+      if (error instanceof IntegrityError || error instanceof TransferError) {
+        throw error;
+      }
       console.error(`❌ Failed to download PTAU file`);
       if (error instanceof Error) {
         console.error(error.message);
@@ -541,6 +765,16 @@ export function ensurePtauFile(): string {
     console.log(`Using existing PTAU file at ${ptauLocalPath}`);
   }
 
+  if (expected.length > 0) {
+    console.log(
+      `✅ PTAU file matches the expected ${expected.map(({ algorithm }) => HASH_NAMES[algorithm]).join(" and ")}`,
+    );
+  } else {
+    console.warn(
+      `⚠️ No ptau.sha256 or ptau.blake2b512 in the ceremony config; the PTAU file was not integrity-checked`,
+    );
+  }
+
   return ptauLocalPath;
 }
 
@@ -550,13 +784,10 @@ export function getR1csFolderPath(): string {
 }
 
 // Function to ensure r1cs files are available
-export function ensureR1csFiles(): string {
+export async function ensureR1csFiles(): Promise<string> {
   const r1csFolder = "r1cs";
   const r1csFolderPath = path.join(contributionRootFolder, r1csFolder);
 
-  // Create r1cs directory if it doesn't exist
-  fs.ensureDirSync(r1csFolderPath);
-
   // Function to check if r1cs folder has required files
   function hasRequiredR1csFiles(): boolean {
     try {
@@ -573,241 +804,41 @@ export function ensureR1csFiles(): string {
     }
   }
 
-  // Check if r1cs folder exists AND has required files
-  if (!fs.existsSync(r1csFolderPath) || !hasRequiredR1csFiles()) {
-    console.log(
-      `R1CS files not found locally or missing required files. Attempting to download from S3...`,
-    );
-
-    if (!isAwsCliAvailable()) {
-      console.warn("AWS CLI not available. Skipping S3 download.");
-      throw new Error(
-        "Cannot proceed without r1cs files and AWS CLI is not available",
-      );
-    }
-
-    const s3R1csPath = asS3Path(r1csFolder);
-
-    try {
-      console.log(
-        `Downloading r1cs files from ${s3R1csPath} to ${r1csFolderPath}...`,
-      );
-      const result = runAwsCommand(
-        `aws s3 cp ${s3R1csPath} ${r1csFolderPath} --recursive`,
-      );
-
-      if (result === "") {
-        console.warn(`Failed to download r1cs files from S3`);
-        throw new Error("Cannot proceed without r1cs files");
-      }
-    } catch (error) {
-      console.error(`Error downloading r1cs files from S3: ${error}`);
-      throw new Error("Cannot proceed without r1cs files");
-    }
-
-    // Verify that r1cs files were successfully downloaded
-    if (!hasRequiredR1csFiles()) {
-      throw new Error(
-        "R1CS files download seemed to succeed but required files are still missing",
-      );
+  // Local r1cs files will do when storage cannot be reached
+  try {
+    await syncFolder(r1csFolder, { direction: "pull" });
+  } catch (error) {
+    if (error instanceof IntegrityError) {
+      throw error;
     }
-
-    console.log(`✅ R1CS files downloaded successfully`);
-  } else {
-    console.log(`R1CS files already exist locally with required files.`);
+    console.error("Error syncing r1cs files with storage:", error);
   }
 
-  // Cross-check r1cs files with S3
-  // crossCheckR1csFilesWithS3();
+  if (!hasRequiredR1csFiles()) {
+    throw new Error("Cannot proceed without r1cs files");
+  }
+  console.log(`✅ R1CS files are available locally`);
 
   return r1csFolderPath;
 }
 
-// Function to cross-check r1cs files with S3
-function crossCheckR1csFilesWithS3(): boolean {
-  if (!isAwsCliAvailable()) {
-    console.warn(
-      "AWS CLI not available. Skipping r1cs files cross-check with S3.",
-    );
-    return false;
+// Keys are built from folder names, which hold contributor names; never let
+// one climb out of its prefix
+function ensureSafeKeyPath(value: string): void {
+  if (value.split(/[\\/]/).includes("..")) {
+    throw new Error(`Refusing the storage key path "${value}"`);
   }
+}
 
-  const r1csFolder = "r1cs";
-  const r1csFolderPath = path.join(contributionRootFolder, r1csFolder);
-
-  try {
-    console.log(`Cross-checking r1cs files between S3 and local...`);
-
-    // Get list of r1cs files from S3
-    const s3FilesOutput = runAwsCommand(
-      `aws s3 ls ${asS3Path(r1csFolder)} --recursive | awk '{print $4}' | sort`,
-      "pipe",
-    );
-
-    if (!s3FilesOutput) {
-      console.warn(`No r1cs files found in S3`);
-      return false;
-    }
-
-    // Parse S3 files (remove the folder prefix from each file)
-    const s3Files = s3FilesOutput
-      .trim()
-      .split("\n")
-      .map((file) => file.replace(`${S3_CONTRIBUTION_DIR}/${r1csFolder}/`, ""))
-      .filter(Boolean);
-
-    // Get local files
-    if (!fs.existsSync(r1csFolderPath)) {
-      console.warn(`Local r1cs folder does not exist`);
-      return false;
-    }
-
-    const getFilesRecursively = (
-      dir: string,
-      baseDir: string = dir,
-    ): string[] => {
-      let results: string[] = [];
-      const files = fs.readdirSync(dir);
-
-      files.forEach((file) => {
-        const fullPath = path.join(dir, file);
-        const relativePath = path.relative(baseDir, fullPath);
-
-        if (fs.statSync(fullPath).isDirectory()) {
-          results = results.concat(getFilesRecursively(fullPath, baseDir));
-        } else {
-          results.push(relativePath);
-        }
-      });
-
-      return results;
-    };
-
-    const localFiles = getFilesRecursively(r1csFolderPath).sort();
-
-    // List of OS-specific files to ignore
-    const ignoreFiles = [".DS_Store", "Thumbs.db", ".directory", "._*"];
-
-    // Function to check if a file should be ignored
-    function shouldIgnoreFile(file: string): boolean {
-      return ignoreFiles.some((pattern) => {
-        if (pattern.endsWith("*")) {
-          return file.startsWith(pattern.slice(0, -1));
-        }
-        return file === pattern;
-      });
-    }
-
-    // Filter out ignored files from both lists
-    const filteredS3Files = s3Files.filter((file) => !shouldIgnoreFile(file));
-    const filteredLocalFiles = localFiles.filter(
-      (file) => !shouldIgnoreFile(file),
-    );
-
-    // Find missing files (ignoring OS-specific files)
-    const missingLocalFiles = filteredS3Files.filter(
-      (file) => !filteredLocalFiles.includes(file),
-    );
-    const missingS3Files = filteredLocalFiles.filter(
-      (file) => !filteredS3Files.includes(file),
-    );
-
-    if (missingLocalFiles.length > 0) {
-      console.warn(
-        `Missing ${missingLocalFiles.length} r1cs files locally that exist in S3:`,
-      );
-      missingLocalFiles.forEach((file) => console.warn(`  - ${file}`));
-
-      // Download missing files
-      const shouldDownload = missingLocalFiles.some((file) =>
-        file.endsWith(".r1cs"),
-      );
-      if (shouldDownload) {
-        console.log(`Attempting to download missing r1cs files...`);
-
-        // Create directory if it doesn't exist
-        fs.ensureDirSync(r1csFolderPath);
-
-        // Download each missing file
-        let downloadedCount = 0;
-        for (const file of missingLocalFiles) {
-          const s3Path = `${S3_BUCKET_PATH}/${r1csFolder}/${file}`;
-          const localFilePath = path.join(r1csFolderPath, file);
-
-          // Make sure the directory for the file exists
-          fs.ensureDirSync(path.dirname(localFilePath));
-
-          console.log(`Downloading ${file}...`);
-          const downloadCmd = `aws s3 cp ${s3Path} ${localFilePath}`;
-          try {
-            runAwsCommand(downloadCmd);
-            downloadedCount++;
-          } catch (error) {
-            console.error(`Failed to download ${file}: ${error}`);
-          }
-        }
-
-        console.log(
-          `Downloaded ${downloadedCount}/${missingLocalFiles.length} missing r1cs files.`,
-        );
-      }
-    }
-
-    // Report missing S3 files (ignoring OS-specific files)
-    if (missingS3Files.length > 0) {
-      console.log(
-        `${missingS3Files.length} r1cs files exist locally but not in S3 (OS-specific files ignored)`,
-      );
-    }
-
-    // Special check for r1cs files
-    const s3R1csFiles = filteredS3Files.filter((file) =>
-      file.endsWith(".r1cs"),
-    );
-    const localR1csFiles = filteredLocalFiles.filter((file) =>
-      file.endsWith(".r1cs"),
-    );
-
-    if (s3R1csFiles.length > localR1csFiles.length) {
-      console.warn(
-        `Missing ${s3R1csFiles.length - localR1csFiles.length} r1cs files locally`,
-      );
-    } else if (
-      localR1csFiles.length === s3R1csFiles.length &&
-      missingLocalFiles.some((file) => file.endsWith(".r1cs"))
-    ) {
-      console.log(`All r1cs files are now available locally.`);
-    }
-
-    // Re-check after download
-    if (missingLocalFiles.length > 0) {
-      const newLocalFiles = getFilesRecursively(r1csFolderPath)
-        .filter((file) => !shouldIgnoreFile(file))
-        .sort();
-
-      const stillMissing = filteredS3Files.filter(
-        (file) => !newLocalFiles.includes(file),
-      );
-
-      if (stillMissing.length > 0) {
-        console.warn(
-          `Still missing ${stillMissing.length} r1cs files after download attempt.`,
-        );
-        return false;
-      } else {
-        console.log(`All required r1cs files are now present locally.`);
-        return true;
-      }
-    }
-
-    return missingLocalFiles.length === 0;
-  } catch (error) {
-    console.error("Error cross-checking r1cs files with S3:", error);
-    return false;
-  }
+// Storage key of a path inside the ceremony prefix
+export function asStorageKey(value: string): string {
+  ensureSafeKeyPath(value);
+  return path.posix.join(getCeremonyConfig().storagePrefix, value);
 }
 
-export function asS3Path(value: string): string {
-  const subPath = path.join(S3_CONTRIBUTION_DIR, value);
-  return `s3://${S3_BUCKET_NAME}/${subPath}`;
+// Key of a coordination file (turn lock, queue). They live next to the ceremony
+// prefix rather than inside it, so downloads of the ceremony never pick them up.
+export function asCoordinationKey(name: string): string {
+  ensureSafeKeyPath(name);
+  return `${getCeremonyConfig().storagePrefix}-coordination/${name}`;
 }
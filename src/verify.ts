@@ -1,75 +1,142 @@
-import { execSync } from "child_process";
 import * as path from "path";
 import * as fs from "fs-extra";
 import {
   contributionRootFolder,
   getContributionFolders,
   getZkeyFiles,
-  downloadFromS3,
+  listStorageContributionFolders,
+  syncFolder,
   ensureInitialSetup,
   ensurePtauFile,
   checkRequiredEnvVars,
-  isAwsCliAvailable,
+  getMissingCircuits,
 } from "./utils";
+import { getCliOption, hasCliFlag } from "./cli";
+import {
+  Attestation,
+  checkSignerIdentity,
+  readAttestation,
+  verifyAttestationSignature,
+  SignatureCheck,
+} from "./attestation";
+import { checkChainLink, checkInitialZkey, ChainLinkCheck } from "./chain";
+import { readZkeyContributions } from "./zkey";
+import {
+  readFinalArtifacts,
+  checkFinalZkey,
+  FinalArtifacts,
+  BeaconMetadata,
+} from "./final";
+import { fetchBeaconBlock, getRpcUrl } from "./beacon";
+import { getCeremonyConfig, isFinalFolder } from "./config";
+import {
+  VerificationResult,
+  ReportFormat,
+  REPORT_FORMATS,
+  buildReport,
+  writeReport,
+} from "./report";
+import { VerificationCache } from "./cache";
+import { runPool } from "./pool";
+import { checkFolderManifest, IntegrityError, MANIFEST_FILE } from "./manifest";
+import { verifyZkeyFromInit } from "./snarkjs";
+
+// Memory a single verification on the mainnet circuits may need, and the
+// default heap limit of its worker
+const DEFAULT_WORKER_HEAP_MB = 8192;
+const VERIFICATION_CACHE_FILE = path.join(
+  contributionRootFolder,
+  ".verification-cache.json",
+);
 
-interface VerificationResult {
+interface VerificationJob {
   contributionFolder: string;
   circuitName: string;
-  success: boolean;
-  errorMessage?: string;
+  initialZkeyPath: string;
+  contributionZkeyPath: string;
 }
 
-function verifyZkeyContribution(
+interface VerificationOptions {
+  concurrency: number;
+  // Heap limit of every verification worker thread, not of the threads
+  // snarkjs starts inside it
+  workerHeapMb: number;
+  cache: VerificationCache;
+  // False with --no-cache: re-verify everything but still record the results
+  useCache: boolean;
+}
+
+async function verifyZkeyContribution(
   initialZkeyFile: string,
   ptauFile: string,
   contributionZkeyFile: string,
-): { success: boolean; errorMessage?: string } {
-  try {
-    // Use the zkvi command with the initial zkey file
-    execSync(
-      `node --max-old-space-size=8192 ./node_modules/.bin/snarkjs zkvi ${initialZkeyFile} ${ptauFile} ${contributionZkeyFile}`,
-      {
-        stdio: "inherit",
-      },
+  workerHeapMb: number,
+  captureOutput: boolean,
+): Promise<{ success: boolean; errorMessage?: string; errorDetails?: string }> {
+  // Parallel runs would interleave their logs, so they are collected instead
+  let output = "";
+  const onLog = captureOutput
+    ? (_level: string, message: string) => (output += `${message}\n`)
+    : undefined;
+
+  const fail = (errorMessage: string) => {
+    console.error(
+      `❌ Failed to verify ${contributionZkeyFile}: ${errorMessage}`,
     );
-    console.log(
-      `✅ ${path.basename(contributionZkeyFile)} verification successful!`,
+    if (output) {
+      console.error(output);
+    }
+    return { success: false, errorMessage, errorDetails: output || undefined };
+  };
+
+  try {
+    // Verify against the initial zkey file, like snarkjs zkvi
+    const valid = await verifyZkeyFromInit(
+      initialZkeyFile,
+      ptauFile,
+      contributionZkeyFile,
+      { heapMb: workerHeapMb, onLog },
     );
+    if (!valid) {
+      return fail("snarkjs zkey verify rejected the zkey");
+    }
+    console.log(`✅ ${contributionZkeyFile} verification successful!`);
     return { success: true };
   } catch (error) {
-    console.error(`❌ Failed to verify ${path.basename(contributionZkeyFile)}`);
-    let errorMessage = "Unknown error";
-    if (error instanceof Error) {
-      console.error(error.message);
-      errorMessage = error.message;
-    }
-    return { success: false, errorMessage };
+    return fail(error instanceof Error ? error.message : String(error));
+  }
+}
+
+function getLatestContributionHash(zkeyPath: string): string | undefined {
+  try {
+    const { contributions } = readZkeyContributions(zkeyPath);
+    return contributions[contributions.length - 1]?.contributionHash;
+  } catch (error) {
+    return undefined;
   }
 }
 
-function verifyContribution(
+// List the (folder, circuit) pairs to verify, recording missing inputs as failures
+function collectVerificationJobs(
   contributionFolder: string,
   initialFolder: string,
-  ptauFile: string,
   results: VerificationResult[],
-): boolean {
-  console.log(`\nVerifying contributions in ${contributionFolder}...`);
-
+): VerificationJob[] {
   // Get contribution zkey files
   const contributionZkeyFiles = getZkeyFiles(contributionFolder);
   if (contributionZkeyFiles.length === 0) {
     console.error(`No .zkey files found in ${contributionFolder}`);
-    return false;
+    return [];
   }
 
   // Get initial zkey files
   const initialZkeyFiles = getZkeyFiles(initialFolder);
   if (initialZkeyFiles.length === 0) {
     console.error(`No .zkey files found in ${initialFolder}`);
-    return false;
+    return [];
   }
 
-  let allSuccessful = true;
+  const jobs: VerificationJob[] = [];
   for (const zkeyFile of contributionZkeyFiles) {
     // Extract circuit name from the zkey file
     const circuitName = path.basename(zkeyFile, ".zkey");
@@ -87,44 +154,443 @@ function verifyContribution(
         success: false,
         errorMessage: "Missing initial zkey file",
       });
-      allSuccessful = false;
       continue;
     }
 
-    const fullInitialZkeyPath = path.join(
-      contributionRootFolder,
-      initialFolder,
-      initialZkeyFile,
-    );
-    const fullContributionZkeyPath = path.join(
-      contributionRootFolder,
+    jobs.push({
       contributionFolder,
-      zkeyFile,
+      circuitName,
+      initialZkeyPath: path.join(
+        contributionRootFolder,
+        initialFolder,
+        initialZkeyFile,
+      ),
+      contributionZkeyPath: path.join(
+        contributionRootFolder,
+        contributionFolder,
+        zkeyFile,
+      ),
+    });
+  }
+
+  return jobs;
+}
+
+async function runVerificationJob(
+  job: VerificationJob,
+  ptauFile: string,
+  ptauHash: string,
+  options: VerificationOptions,
+): Promise<VerificationResult> {
+  const { cache } = options;
+  const cacheKey = VerificationCache.key(
+    await cache.hashFile(job.initialZkeyPath),
+    ptauHash,
+    await cache.hashFile(job.contributionZkeyPath),
+  );
+  const contributionHash = getLatestContributionHash(job.contributionZkeyPath);
+
+  const cached = options.useCache ? cache.get(cacheKey) : undefined;
+  if (cached) {
+    console.log(
+      `⏭️  ${job.contributionFolder}/${job.circuitName} already verified on ${cached.verifiedAt}, skipping`,
     );
+    return {
+      contributionFolder: job.contributionFolder,
+      circuitName: job.circuitName,
+      success: true,
+      cached: true,
+      durationMs: cached.durationMs,
+      contributionHash,
+    };
+  }
 
-    console.log(`\nVerifying ${zkeyFile} using initial zkey file...`);
-    const { success, errorMessage } = verifyZkeyContribution(
-      fullInitialZkeyPath,
-      ptauFile,
-      fullContributionZkeyPath,
+  console.log(
+    `\nVerifying ${job.contributionFolder}/${job.circuitName} using initial zkey file...`,
+  );
+  const startTime = Date.now();
+  const { success, errorMessage, errorDetails } = await verifyZkeyContribution(
+    job.initialZkeyPath,
+    ptauFile,
+    job.contributionZkeyPath,
+    options.workerHeapMb,
+    options.concurrency > 1,
+  );
+  const durationMs = Date.now() - startTime;
+
+  // Only successes are cached, failures are always re-run
+  if (success) {
+    cache.set(cacheKey, {
+      contributionFolder: job.contributionFolder,
+      circuitName: job.circuitName,
+      verifiedAt: new Date().toISOString(),
+      durationMs,
+      contributionHash,
+    });
+  }
+
+  return {
+    contributionFolder: job.contributionFolder,
+    circuitName: job.circuitName,
+    success,
+    durationMs,
+    contributionHash,
+    errorMessage,
+    errorDetails,
+  };
+}
+
+async function verifyContributions(
+  contributionFolders: string[],
+  ptauFile: string,
+  options: VerificationOptions,
+  results: VerificationResult[],
+): Promise<void> {
+  const initialFolder = contributionFolders[0]; // 0000_initial
+
+  // Collect every (folder, circuit) pair, starting from the first non-initial contribution
+  const jobs = contributionFolders
+    .slice(1)
+    .flatMap((folder) =>
+      collectVerificationJobs(folder, initialFolder, results),
+    );
+
+  console.log(
+    `\nVerifying ${jobs.length} zkeys with ${options.concurrency} worker(s), ${options.workerHeapMb} MB heap each...`,
+  );
+  const ptauHash = await options.cache.hashFile(ptauFile);
+
+  const jobResults = await runPool(jobs, options.concurrency, (job) =>
+    runVerificationJob(job, ptauFile, ptauHash, options),
+  );
+  results.push(...jobResults);
+}
+
+function getVerificationOptions(): VerificationOptions {
+  let concurrency = parseInt(getCliOption("concurrency") || "1", 10);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error("--concurrency must be a positive integer");
+  }
+
+  // --memory-budget is the memory all verifications together may use, in MB.
+  // The heap limit of a worker does not reach the threads snarkjs starts
+  // inside it, so the budget is kept by running fewer verifications at once.
+  let workerHeapMb = DEFAULT_WORKER_HEAP_MB;
+  const memoryBudget = getCliOption("memory-budget");
+  if (memoryBudget !== undefined) {
+    const budgetMb = Number(memoryBudget);
+    if (!Number.isInteger(budgetMb) || budgetMb < 1) {
+      throw new Error("--memory-budget must be a positive number of MB");
+    }
+    const fitting = Math.max(1, Math.floor(budgetMb / DEFAULT_WORKER_HEAP_MB));
+    if (fitting < concurrency) {
+      console.warn(
+        `⚠️ A ${budgetMb} MB memory budget fits ${fitting} verification(s) of up to ${DEFAULT_WORKER_HEAP_MB} MB at once; running ${fitting} instead of ${concurrency}.`,
+      );
+      concurrency = fitting;
+    }
+    workerHeapMb = Math.min(DEFAULT_WORKER_HEAP_MB, budgetMb);
+  }
+  if (workerHeapMb < DEFAULT_WORKER_HEAP_MB) {
+    console.warn(
+      `⚠️ Each worker gets ${workerHeapMb} MB of heap; the mainnet circuits may need ${DEFAULT_WORKER_HEAP_MB} MB.`,
+    );
+  }
+
+  return {
+    concurrency,
+    workerHeapMb,
+    cache: new VerificationCache(VERIFICATION_CACHE_FILE),
+    useCache: !hasCliFlag("no-cache"),
+  };
+}
+
+// Every folder must hold a zkey for each circuit listed in the ceremony config
+function checkCircuitFiles(
+  contributionFolders: string[],
+  results: VerificationResult[],
+): void {
+  for (const folder of contributionFolders) {
+    for (const circuitName of getMissingCircuits(folder)) {
+      console.error(`❌ ${folder}: missing ${circuitName}.zkey`);
+      results.push({
+        contributionFolder: folder,
+        circuitName,
+        success: false,
+        errorMessage: `Missing ${circuitName}.zkey`,
+      });
+    }
+  }
+}
+
+// Check every folder against its MANIFEST.json; folders without one predate manifests
+async function checkFolderManifests(
+  contributionFolders: string[],
+  results: VerificationResult[],
+): Promise<void> {
+  const withoutManifest: string[] = [];
+  for (const folder of contributionFolders) {
+    const errors = await checkFolderManifest(
+      path.join(contributionRootFolder, folder),
+    );
+    if (errors === null) {
+      withoutManifest.push(folder);
+      continue;
+    }
+    for (const error of errors) {
+      console.error(`❌ ${folder}: ${error}`);
+      results.push({
+        contributionFolder: folder,
+        circuitName: MANIFEST_FILE,
+        success: false,
+        errorMessage: error,
+      });
+    }
+  }
+
+  if (withoutManifest.length > 0) {
+    console.log(
+      `⚪ No ${MANIFEST_FILE} to check in: ${withoutManifest.join(", ")}`,
+    );
+  }
+}
+
+// Chain mode: check each folder's zkeys extend the previous folder's by one contribution
+async function verifyChain(
+  contributionFolders: string[],
+  results: VerificationResult[],
+): Promise<void> {
+  const initialFolder = contributionFolders[0];
+  for (const zkeyFile of getZkeyFiles(initialFolder)) {
+    const check = checkInitialZkey(initialFolder, zkeyFile);
+    if (!check.success) {
+      console.error(`❌ ${initialFolder}/${zkeyFile}: ${check.errorMessage}`);
+      results.push({
+        contributionFolder: initialFolder,
+        circuitName: path.basename(zkeyFile, ".zkey"),
+        success: false,
+        errorMessage: check.errorMessage,
+      });
+    }
+  }
+
+  for (let i = 1; i < contributionFolders.length; i++) {
+    const previousFolder = contributionFolders[i - 1];
+    const currentFolder = contributionFolders[i];
+    console.log(`\nChecking ${currentFolder} against ${previousFolder}...`);
+
+    const zkeyFiles = getZkeyFiles(currentFolder);
+    if (zkeyFiles.length === 0) {
+      console.error(`No .zkey files found in ${currentFolder}`);
+    }
+
+    for (const zkeyFile of zkeyFiles) {
+      const circuitName = path.basename(zkeyFile, ".zkey");
+      const startTime = Date.now();
+      let check: ChainLinkCheck & { errorDetails?: string };
+      try {
+        check = await checkChainLink(previousFolder, currentFolder, zkeyFile);
+      } catch (error) {
+        check = {
+          success: false,
+          errorMessage: error instanceof Error ? error.message : String(error),
+          errorDetails: error instanceof Error ? error.stack : undefined,
+        };
+      }
+
+      if (check.success) {
+        console.log(`✅ ${zkeyFile} extends ${previousFolder}`);
+      } else {
+        console.error(`❌ ${zkeyFile}: ${check.errorMessage}`);
+      }
+
+      results.push({
+        contributionFolder: currentFolder,
+        circuitName,
+        success: check.success,
+        durationMs: Date.now() - startTime,
+        contributionHash: check.contributionHash,
+        errorMessage: check.errorMessage,
+        errorDetails: check.errorDetails,
+      });
+    }
+  }
+}
+
+// Re-fetch the beacon block hash from an Ethereum RPC endpoint, if one is configured
+async function recheckBeaconBlock(
+  finalFolder: string,
+  metadata: BeaconMetadata,
+): Promise<void> {
+  const rpcUrl = getRpcUrl();
+  if (!rpcUrl) {
+    console.log(
+      "⚪ No Ethereum RPC endpoint configured (ETH_RPC_URL or --rpc-url), beacon block hash not re-checked",
+    );
+    return;
+  }
+
+  const block = await fetchBeaconBlock(
+    rpcUrl,
+    metadata.blockNumber,
+    getCeremonyConfig().beacon.confirmations,
+  );
+  if (metadata.source && metadata.source.endpoint !== block.source.endpoint) {
+    console.log(
+      `ℹ️ Finalize fetched the block from ${metadata.source.endpoint}, re-checking against ${block.source.endpoint}`,
+    );
+  }
+  if (block.blockHash !== metadata.blockHash.toLowerCase()) {
+    throw new Error(
+      `Block #${metadata.blockNumber} has hash ${block.blockHash} on ${block.source.endpoint}, but ${finalFolder} declares ${metadata.blockHash}`,
     );
+  }
+  console.log(
+    `✅ Beacon block #${metadata.blockNumber} hash confirmed by ${block.source.endpoint}`,
+  );
+}
+
+// Final stage: the final folder must hold the declared beacon on top of the last human contribution
+async function verifyFinalStage(
+  contributionFolders: string[],
+  finalFolder: string,
+  results: VerificationResult[],
+): Promise<void> {
+  const finalIndex = contributionFolders.indexOf(finalFolder);
+  const lastContributionFolder = contributionFolders[finalIndex - 1];
+  // Reported separately from the zkvi/chain result of the same folder
+  const resultFolder = `${finalFolder}/beacon`;
+  console.log(
+    `\nChecking beacon in ${finalFolder} on top of ${lastContributionFolder}...`,
+  );
+
+  const zkeyFiles = getZkeyFiles(finalFolder);
+  if (zkeyFiles.length === 0) {
+    console.error(`No .zkey files found in ${finalFolder}`);
+  }
+
+  let artifacts: FinalArtifacts | null = null;
+  let artifactsError: string | undefined;
+  try {
+    artifacts = readFinalArtifacts(finalFolder);
+    await recheckBeaconBlock(finalFolder, artifacts.metadata);
+  } catch (error) {
+    artifactsError = error instanceof Error ? error.message : String(error);
+    console.error(`❌ ${finalFolder}: ${artifactsError}`);
+  }
+
+  if (finalIndex !== contributionFolders.length - 1) {
+    artifactsError = `Contributions found after ${finalFolder}: ${contributionFolders.slice(finalIndex + 1).join(", ")}`;
+    console.error(`❌ ${artifactsError}`);
+  }
+
+  for (const zkeyFile of zkeyFiles) {
+    const circuitName = path.basename(zkeyFile, ".zkey");
+    const startTime = Date.now();
+    let check: ChainLinkCheck & { errorDetails?: string };
+    if (!artifacts || artifactsError) {
+      check = { success: false, errorMessage: artifactsError };
+    } else {
+      try {
+        check = await checkFinalZkey(
+          lastContributionFolder,
+          finalFolder,
+          zkeyFile,
+          artifacts,
+        );
+      } catch (error) {
+        check = {
+          success: false,
+          errorMessage: error instanceof Error ? error.message : String(error),
+          errorDetails: error instanceof Error ? error.stack : undefined,
+        };
+      }
+    }
+
+    if (check.success) {
+      console.log(
+        `✅ ${zkeyFile} carries the beacon from block #${artifacts!.metadata.blockNumber}`,
+      );
+    } else {
+      console.error(`❌ ${zkeyFile}: ${check.errorMessage}`);
+    }
 
     results.push({
-      contributionFolder,
+      contributionFolder: resultFolder,
       circuitName,
-      success,
+      success: check.success,
+      durationMs: Date.now() - startTime,
+      contributionHash: check.contributionHash,
+      errorMessage: check.errorMessage,
+      errorDetails: check.errorDetails,
+    });
+  }
+}
+
+async function verifyAttestation(
+  contributionFolder: string,
+  results: VerificationResult[],
+): Promise<SignatureCheck | null> {
+  let attestation: Attestation | null;
+  try {
+    attestation = readAttestation(contributionFolder);
+  } catch (error) {
+    // An unreadable attestation fails this folder, not the whole run
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`❌ ${errorMessage}`);
+    results.push({
+      contributionFolder,
+      circuitName: "attestation.json",
+      success: false,
       errorMessage,
     });
+    return { signed: false, valid: false, errorMessage };
+  }
+  if (!attestation) {
+    return null;
+  }
 
-    if (!success) {
-      allSuccessful = false;
-    }
+  const check = await checkSignerIdentity(
+    attestation,
+    verifyAttestationSignature(attestation),
+  );
+  if (!check.signed) {
+    console.log(`⚪ ${contributionFolder}: attestation is not signed`);
+  } else if (check.valid && check.keyLinked) {
+    console.log(
+      `✅ ${contributionFolder}: attestation signed by ${check.signer} (${check.scheme}), a key of ${attestation.contributor} per ${check.keySource}`,
+    );
+  } else if (check.valid) {
+    console.warn(
+      `⚠️ ${contributionFolder}: attestation signed by ${check.signer} (${check.scheme}), but the key is not linked to ${attestation.contributor}: ${check.keySource}`,
+    );
+  } else {
+    console.error(
+      `❌ ${contributionFolder}: invalid attestation signature - ${check.errorMessage}`,
+    );
   }
+  return check;
+}
 
-  return allSuccessful;
+function formatSignature(check: SignatureCheck | null | undefined): string {
+  if (!check) {
+    return "⚠️ N/A";
+  }
+  if (!check.signed) {
+    return check.errorMessage ? "❌ UNREADABLE" : "⚪ UNSIGNED";
+  }
+  if (check.valid && !check.keyLinked) {
+    return "⚠️ UNLINKED";
+  }
+  return check.valid
+    ? `✅ ${check.scheme!.toUpperCase()}`
+    : `❌ ${check.scheme!.toUpperCase()}`;
 }
 
-function printResultsTable(results: VerificationResult[]): void {
+function printResultsTable(
+  results: VerificationResult[],
+  signatures: Record<string, SignatureCheck | null>,
+): void {
   console.log("\n\n=== VERIFICATION SUMMARY ===\n");
 
   // Group results by contribution folder
@@ -149,12 +615,14 @@ function printResultsTable(results: VerificationResult[]): void {
   );
   const circuitWidth = Math.max(15, ...allCircuits.map((c) => c.length));
 
+  const signatureWidth = 12;
+
   // Print header
   console.log(
-    `${"Contribution".padEnd(folderWidth)} | ${allCircuits.map((c) => c.padEnd(circuitWidth)).join(" | ")}`,
+    `${"Contribution".padEnd(folderWidth)} | ${allCircuits.map((c) => c.padEnd(circuitWidth)).join(" | ")} | ${"Signature".padEnd(signatureWidth)}`,
   );
   console.log(
-    `${"-".repeat(folderWidth)} | ${allCircuits.map(() => "-".repeat(circuitWidth)).join(" | ")}`,
+    `${"-".repeat(folderWidth)} | ${allCircuits.map(() => "-".repeat(circuitWidth)).join(" | ")} | ${"-".repeat(signatureWidth)}`,
   );
 
   // Print rows for each contribution folder
@@ -177,7 +645,9 @@ function printResultsTable(results: VerificationResult[]): void {
           .map((circuit) =>
             (resultByCircuit[circuit] || "⚠️ N/A").padEnd(circuitWidth),
           )
-          .join(" | ")}`,
+          .join(
+            " | ",
+          )} | ${formatSignature(signatures[folder]).padEnd(signatureWidth)}`,
       );
     });
 
@@ -190,6 +660,10 @@ function printResultsTable(results: VerificationResult[]): void {
   console.log(`Total verification tests: ${totalTests}`);
   console.log(`Passed: ${passedTests}`);
   console.log(`Failed: ${failedTests}`);
+  const cachedTests = results.filter((r) => r.cached).length;
+  if (cachedTests > 0) {
+    console.log(`Skipped (already verified): ${cachedTests}`);
+  }
 
   if (failedTests > 0) {
     console.log("\n=== FAILED VERIFICATIONS ===");
@@ -201,44 +675,114 @@ function printResultsTable(results: VerificationResult[]): void {
         );
       });
   }
+
+  const signatureEntries = Object.entries(signatures).filter(
+    ([, check]) => check && check.signed,
+  );
+  console.log("\n=== ATTESTATION SIGNATURES ===");
+  console.log(
+    `Signed attestations: ${signatureEntries.length}/${Object.values(signatures).filter(Boolean).length}`,
+  );
+  signatureEntries.forEach(([folder, check]) => {
+    if (!check!.valid) {
+      console.log(
+        `❌ ${folder}: ${check!.scheme} signature invalid - ${check!.errorMessage}`,
+      );
+    } else if (!check!.keyLinked) {
+      console.log(
+        `⚠️ ${folder}: ${check!.scheme} signature by ${check!.signer}, key not linked to the contributor - ${check!.keySource}`,
+      );
+    } else {
+      console.log(
+        `✅ ${folder}: ${check!.scheme} signature by ${check!.signer}`,
+      );
+    }
+  });
 }
 
-function main(): void {
+// Bring every contribution folder, local or in storage, in line with storage.
+// Without storage the local folders are verified as they are.
+async function fetchContributions(): Promise<void> {
+  const { initialFolder } = getCeremonyConfig();
+  let storageFolders: string[];
   try {
-    // Check for required environment variables
-    checkRequiredEnvVars();
+    storageFolders = await listStorageContributionFolders();
+  } catch (error) {
+    console.warn(
+      `⚠️ Could not list the contributions in storage, verifying the local ones only: ${error instanceof Error ? error.message : error}`,
+    );
+    return;
+  }
 
-    // Check if AWS CLI is installed
-    if (!isAwsCliAvailable()) {
-      console.error("❌ Error: AWS CLI is not installed or not in your PATH");
-      console.error(
-        "Please install AWS CLI using: npm install -g aws-cli or pip install awscli",
+  const folders = [
+    ...new Set([...getContributionFolders(), ...storageFolders]),
+  ].sort();
+  // ensureInitialSetup has synced the initial folder already
+  for (const folder of folders.filter((folder) => folder !== initialFolder)) {
+    try {
+      const { failed } = await syncFolder(folder, { direction: "pull" });
+      if (failed.length > 0) {
+        console.warn(
+          `⚠️ ${failed.length} files of ${folder} could not be downloaded`,
+        );
+      }
+    } catch (error) {
+      if (error instanceof IntegrityError) {
+        throw error;
+      }
+      console.warn(
+        `⚠️ Could not sync ${folder} with storage: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  try {
+    // --chain checks the contribution history instead of running zkvi
+    const chainMode = hasCliFlag("chain");
+
+    // --report json|junit writes a machine-readable report (path via --report-file)
+    const reportFormat = getCliOption("report") as ReportFormat | undefined;
+    if (reportFormat && !REPORT_FORMATS.includes(reportFormat)) {
+      throw new Error(
+        `Unknown report format "${reportFormat}". Use one of: ${REPORT_FORMATS.join(", ")}`,
       );
-      console.error("For more information, visit: https://aws.amazon.com/cli/");
-      process.exit(1);
     }
+    const reportFile =
+      getCliOption("report-file") ||
+      `verification-report.${reportFormat === "junit" ? "xml" : "json"}`;
+
+    // Check for required environment variables
+    checkRequiredEnvVars();
+    const config = getCeremonyConfig();
+    console.log(`Ceremony: ${config.ceremonyId}`);
 
     // Create the contributions directory if it doesn't exist
     fs.ensureDirSync(contributionRootFolder);
 
-    // Ensure we have the PTAU file
-    const ptauFile = ensurePtauFile();
-    console.log(`Using ptau file: ${ptauFile}`);
+    // Ensure we have the PTAU file (not needed to walk the chain)
+    const ptauFile = chainMode ? "" : await ensurePtauFile();
+    if (!chainMode) {
+      console.log(`Using ptau file: ${ptauFile}`);
+    }
 
     // Ensure we have the initial setup
-    ensureInitialSetup();
-
-    // Check if we need to download more contributions
-    const localContributionFolders = getContributionFolders();
+    await ensureInitialSetup();
 
-    for (const folder of localContributionFolders) {
-      if (getZkeyFiles(folder).length === 0) downloadFromS3(folder);
-    }
+    await fetchContributions();
 
     // Refresh the list of contribution folders after potential downloads
     const contributionFolders = getContributionFolders();
     console.log(`Found ${contributionFolders.length} contributions`);
 
+    // Every other folder is checked against the initial one, so it must sort first
+    if (contributionFolders[0] !== config.initialFolder) {
+      throw new Error(
+        `Expected ${config.initialFolder} to be the first contribution folder, found ${contributionFolders[0]}`,
+      );
+    }
+
     if (contributionFolders.length < 2) {
       console.log("At least two contributions are needed for verification.");
       console.log(
@@ -247,24 +791,75 @@ function main(): void {
       return;
     }
 
-    const initialFolder = contributionFolders[0]; // 0000_initial
-
     // Track verification results
     const verificationResults: VerificationResult[] = [];
+    const signatureResults: Record<string, SignatureCheck | null> = {};
+
+    checkCircuitFiles(contributionFolders.slice(1), verificationResults);
+    await checkFolderManifests(contributionFolders, verificationResults);
+
+    // Results of the chain links alone, to tell where the chain breaks
+    let chainResults: VerificationResult[] = [];
+    if (chainMode) {
+      const chainStart = verificationResults.length;
+      await verifyChain(contributionFolders, verificationResults);
+      chainResults = verificationResults.slice(chainStart);
+    } else {
+      await verifyContributions(
+        contributionFolders,
+        ptauFile,
+        getVerificationOptions(),
+        verificationResults,
+      );
+    }
+
+    // The beacon and the final artifacts are checked in both modes
+    const finalFolder = contributionFolders.find(isFinalFolder);
+    if (finalFolder) {
+      await verifyFinalStage(
+        contributionFolders,
+        finalFolder,
+        verificationResults,
+      );
+    }
 
-    // Verify each contribution individually, starting from the first non-initial contribution
     for (let i = 1; i < contributionFolders.length; i++) {
       const currentFolder = contributionFolders[i];
-      verifyContribution(
+      signatureResults[currentFolder] = await verifyAttestation(
         currentFolder,
-        initialFolder,
-        ptauFile,
         verificationResults,
       );
     }
 
     // Print summary table
-    printResultsTable(verificationResults);
+    printResultsTable(verificationResults, signatureResults);
+
+    if (chainMode) {
+      const firstBreak = chainResults
+        .filter((r) => !r.success)
+        .sort((a, b) =>
+          a.contributionFolder.localeCompare(b.contributionFolder),
+        )[0];
+      console.log(
+        firstBreak
+          ? `\n⛓️  Chain broken at ${firstBreak.contributionFolder} (${firstBreak.circuitName}): ${firstBreak.errorMessage}`
+          : "\n⛓️  Contribution chain is intact from the initial setup to the latest folder.",
+      );
+    }
+
+    const report = buildReport(
+      chainMode ? "chain" : "zkvi",
+      verificationResults,
+      signatureResults,
+    );
+    if (reportFormat) {
+      writeReport(report, reportFormat, reportFile);
+    }
+
+    // Any failed verification or invalid signature must fail the process
+    if (report.summary.failed > 0 || report.summary.invalidSignatures > 0) {
+      process.exit(1);
+    }
   } catch (error) {
     if (error instanceof Error) {
       console.error(`Error: ${error.message}`);
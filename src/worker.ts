@@ -0,0 +1,267 @@
+import * as fs from "fs";
+import * as path from "path";
+import { randomBytes } from "crypto";
+import { parentPort, workerData } from "worker_threads";
+
+// Entry point of the worker threads started by snarkjs.ts. It only depends on
+// snarkjs itself, so starting a worker stays cheap.
+
+export type SnarkjsOperation =
+  | "contribute"
+  | "beacon"
+  | "verifyFromInit"
+  | "verifyFromR1cs"
+  | "exportVerificationKey"
+  | "newZkey"
+  | "newPtau";
+
+export interface SnarkjsTask {
+  operation: SnarkjsOperation;
+  args: (string | number)[];
+  // Contribution entropy, moved into this thread's memory rather than copied
+  secret?: Uint8Array;
+  verbose: boolean;
+}
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type WorkerMessage =
+  | { type: "log"; level: LogLevel; message: string }
+  | { type: "result"; value: unknown }
+  | { type: "error"; message: string };
+
+type SnarkjsLogger = Record<LogLevel, (message: string) => void>;
+
+// The subset of the snarkjs zKey API the ceremony uses; snarkjs ships no types
+interface SnarkjsZkey {
+  contribute(
+    oldZkey: string,
+    newZkey: string,
+    name: string,
+    entropy: string,
+    logger: SnarkjsLogger,
+  ): Promise<Uint8Array>;
+  beacon(
+    oldZkey: string,
+    newZkey: string,
+    name: string,
+    beaconHash: string,
+    numIterationsExp: number,
+    logger: SnarkjsLogger,
+  ): Promise<Uint8Array | false>;
+  verifyFromInit(
+    initZkey: string,
+    ptau: string,
+    zkey: string,
+    logger: SnarkjsLogger,
+  ): Promise<boolean>;
+  verifyFromR1cs(
+    r1cs: string,
+    ptau: string,
+    zkey: string,
+    logger: SnarkjsLogger,
+  ): Promise<boolean>;
+  exportVerificationKey(
+    zkey: string,
+    logger: SnarkjsLogger,
+  ): Promise<Record<string, unknown>>;
+  newZKey(
+    r1cs: string,
+    ptau: string,
+    zkey: string,
+    logger: SnarkjsLogger,
+  ): Promise<unknown>;
+}
+
+// The subset of the snarkjs powersOfTau API used to build test ptau files
+interface SnarkjsPowersOfTau {
+  newAccumulator(
+    curve: unknown,
+    power: number,
+    ptau: string,
+    logger: SnarkjsLogger,
+  ): Promise<unknown>;
+  contribute(
+    oldPtau: string,
+    newPtau: string,
+    name: string,
+    entropy: string,
+    logger: SnarkjsLogger,
+  ): Promise<unknown>;
+  preparePhase2(
+    oldPtau: string,
+    newPtau: string,
+    logger: SnarkjsLogger,
+  ): Promise<unknown>;
+}
+
+interface SnarkjsCurves {
+  getCurveFromName(name: string): Promise<unknown>;
+}
+
+// A phase 2 ready ptau of 2^power constraints, from a single contribution of
+// random entropy. Only good for tests: nobody has checked how it was made.
+async function newPtau(
+  ptau: string,
+  power: number,
+  logger: SnarkjsLogger,
+): Promise<void> {
+  const { powersOfTau, curves } = require("snarkjs") as {
+    powersOfTau: SnarkjsPowersOfTau;
+    curves: SnarkjsCurves;
+  };
+
+  const initial = `${ptau}.0`;
+  const contributed = `${ptau}.1`;
+  try {
+    const curve = await curves.getCurveFromName("bn128");
+    await powersOfTau.newAccumulator(curve, power, initial, logger);
+    await powersOfTau.contribute(
+      initial,
+      contributed,
+      "Test contribution",
+      randomBytes(32).toString("hex"),
+      logger,
+    );
+    await powersOfTau.preparePhase2(contributed, ptau, logger);
+  } finally {
+    fs.rmSync(initial, { force: true });
+    fs.rmSync(contributed, { force: true });
+  }
+}
+
+// Verification keys hold bigints, which cannot be posted back as they are
+function stringifyBigInts(value: unknown): unknown {
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(stringifyBigInts);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        stringifyBigInts(entry),
+      ]),
+    );
+  }
+  return value;
+}
+
+// The web-worker version the workaround below was checked against; ffjavascript
+// pins it exactly
+const WEB_WORKER_VERSION = "1.2.0";
+
+// web-worker, which ffjavascript starts the snarkjs threads with, decides once,
+// when first required, whether it runs inside one of its own workers: in any
+// thread but the main one it sets up that worker instead of exporting Worker,
+// and snarkjs would start no threads from here. snarkjs offers no option to
+// avoid it. So load it once with worker_threads.isMainThread raised and put
+// the flag back at once; ffjavascript then gets the main thread variant from
+// the module cache.
+function loadWebWorkerForThisThread(): void {
+  const snarkjsDir = path.dirname(require.resolve("snarkjs"));
+  const ffjavascript = require.resolve("ffjavascript", {
+    paths: [snarkjsDir],
+  });
+  const webWorker = require.resolve("web-worker", {
+    paths: [path.dirname(ffjavascript)],
+  });
+  const { version } = JSON.parse(
+    fs.readFileSync(
+      path.join(path.dirname(webWorker), "..", "package.json"),
+      "utf8",
+    ),
+  ) as { version: string };
+  if (version !== WEB_WORKER_VERSION) {
+    throw new Error(
+      `snarkjs threads were only checked with web-worker ${WEB_WORKER_VERSION}, found ${version}; see loadWebWorkerForThisThread in src/worker.ts`,
+    );
+  }
+
+  const workerThreads = require("worker_threads") as { isMainThread: boolean };
+  workerThreads.isMainThread = true;
+  try {
+    require(webWorker);
+  } finally {
+    workerThreads.isMainThread = false;
+  }
+}
+
+async function runTask(task: SnarkjsTask): Promise<unknown> {
+  loadWebWorkerForThisThread();
+  const { zKey } = require("snarkjs") as { zKey: SnarkjsZkey };
+  const post = (message: WorkerMessage) => parentPort?.postMessage(message);
+  const logger: SnarkjsLogger = {
+    debug: (message) =>
+      task.verbose && post({ type: "log", level: "debug", message }),
+    info: (message) => post({ type: "log", level: "info", message }),
+    warn: (message) => post({ type: "log", level: "warn", message }),
+    error: (message) => post({ type: "log", level: "error", message }),
+  };
+
+  const [a, b, c, d, e] = task.args;
+  switch (task.operation) {
+    case "contribute": {
+      if (!task.secret) {
+        throw new Error("No entropy was passed to the worker");
+      }
+      // snarkjs only accepts the entropy as a string. It exists in this
+      // thread's heap alone, which is discarded when the worker is terminated.
+      const entropy = Buffer.from(
+        task.secret.buffer,
+        task.secret.byteOffset,
+        task.secret.byteLength,
+      ).toString("hex");
+      task.secret.fill(0);
+      const hash = await zKey.contribute(
+        String(a),
+        String(b),
+        String(c),
+        entropy,
+        logger,
+      );
+      return Buffer.from(hash).toString("hex");
+    }
+    case "beacon": {
+      const hash = await zKey.beacon(
+        String(a),
+        String(b),
+        String(c),
+        String(d),
+        Number(e),
+        logger,
+      );
+      if (!hash) {
+        throw new Error("snarkjs rejected the beacon parameters");
+      }
+      return Buffer.from(hash).toString("hex");
+    }
+    case "verifyFromInit":
+      return zKey.verifyFromInit(String(a), String(b), String(c), logger);
+    case "verifyFromR1cs":
+      return zKey.verifyFromR1cs(String(a), String(b), String(c), logger);
+    case "exportVerificationKey":
+      return stringifyBigInts(
+        await zKey.exportVerificationKey(String(a), logger),
+      );
+    case "newZkey":
+      await zKey.newZKey(String(a), String(b), String(c), logger);
+      return true;
+    case "newPtau":
+      await newPtau(String(a), Number(b), logger);
+      return true;
+  }
+}
+
+if (parentPort) {
+  runTask(workerData as SnarkjsTask)
+    .then((value) => parentPort?.postMessage({ type: "result", value }))
+    .catch((error) =>
+      parentPort?.postMessage({
+        type: "error",
+        message: error instanceof Error ? error.message : String(error),
+      }),
+    );
+}
@@ -0,0 +1,207 @@
+import * as fs from "fs-extra";
+import * as crypto from "crypto";
+
+// Section ids of the snarkjs zkey binary format
+const ZKEY_SECTION_GROTH16_HEADER = 2;
+const ZKEY_SECTION_CONTRIBUTIONS = 10;
+
+// Contribution types recorded by snarkjs
+export const CONTRIBUTION_TYPE_RANDOM = 0;
+export const CONTRIBUTION_TYPE_BEACON = 1;
+
+export interface ZkeyContributionInfo {
+  // Name passed with --name / -n, if any
+  name?: string;
+  type: number;
+  // Beacon parameters, only present when type is CONTRIBUTION_TYPE_BEACON
+  numIterationsExp?: number;
+  beaconHash?: string;
+  // Blake2b-512 hash snarkjs prints as the "contribution hash"
+  contributionHash: string;
+  // Exact bytes of the record, used to compare entries across zkeys
+  raw: Buffer;
+}
+
+export interface ZkeyMpcParams {
+  // Blake2b-512 hash of the circuit, identical for every zkey of a ceremony
+  csHash: string;
+  contributions: ZkeyContributionInfo[];
+}
+
+interface SectionLocation {
+  offset: number;
+  size: number;
+}
+
+function readBytes(fd: number, offset: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  const bytesRead = fs.readSync(fd, buffer, 0, length, offset);
+  if (bytesRead !== length) {
+    throw new Error("Unexpected end of zkey file");
+  }
+  return buffer;
+}
+
+// Walk the section table without reading the (large) section bodies
+function readSectionTable(fd: number): Map<number, SectionLocation> {
+  const header = readBytes(fd, 0, 12);
+  if (header.toString("ascii", 0, 4) !== "zkey") {
+    throw new Error("Not a zkey file");
+  }
+
+  const nSections = header.readUInt32LE(8);
+  const sections = new Map<number, SectionLocation>();
+  let offset = 12;
+
+  for (let i = 0; i < nSections; i++) {
+    const sectionHeader = readBytes(fd, offset, 12);
+    const type = sectionHeader.readUInt32LE(0);
+    const size = Number(sectionHeader.readBigUInt64LE(4));
+    if (sections.has(type)) {
+      throw new Error(`Duplicate section ${type} in zkey file`);
+    }
+    sections.set(type, { offset: offset + 12, size });
+    offset += 12 + size;
+  }
+
+  return sections;
+}
+
+function readSection(
+  fd: number,
+  sections: Map<number, SectionLocation>,
+  type: number,
+): Buffer {
+  const section = sections.get(type);
+  if (!section) {
+    throw new Error(`Missing section ${type} in zkey file`);
+  }
+  return readBytes(fd, section.offset, section.size);
+}
+
+// Convert a little-endian Montgomery field element to big-endian standard form
+function fromMontgomeryLE(bytes: Buffer, q: bigint, rInverse: bigint): Buffer {
+  const montgomery = BigInt(
+    `0x${Buffer.from(bytes).reverse().toString("hex")}`,
+  );
+  const value = (montgomery * rInverse) % q;
+  return Buffer.from(value.toString(16).padStart(bytes.length * 2, "0"), "hex");
+}
+
+function modInverse(value: bigint, modulus: bigint): bigint {
+  let [a, b, x, y] = [value % modulus, modulus, BigInt(1), BigInt(0)];
+  while (b !== BigInt(0)) {
+    const quotient = a / b;
+    [a, b] = [b, a - quotient * b];
+    [x, y] = [y, x - quotient * y];
+  }
+  return ((x % modulus) + modulus) % modulus;
+}
+
+export function readZkeyContributions(zkeyPath: string): ZkeyMpcParams {
+  const fd = fs.openSync(zkeyPath, "r");
+
+  try {
+    const sections = readSectionTable(fd);
+
+    // The curve's base field size and modulus come from the Groth16 header
+    const header = readSection(fd, sections, ZKEY_SECTION_GROTH16_HEADER);
+    const n8q = header.readUInt32LE(0);
+    const q = BigInt(
+      `0x${Buffer.from(header.subarray(4, 4 + n8q))
+        .reverse()
+        .toString("hex")}`,
+    );
+    const rInverse = modInverse(BigInt(1) << BigInt(n8q * 8), q);
+
+    const g1Size = n8q * 2;
+    const g2Size = n8q * 4;
+
+    // Uncompressed big-endian encoding of a point, as hashed by snarkjs
+    const toUncompressed = (point: Buffer): Buffer => {
+      if (point.every((byte) => byte === 0)) {
+        const zero = Buffer.alloc(point.length);
+        zero[0] = 0x40;
+        return zero;
+      }
+      const elements: Buffer[] = [];
+      for (let i = 0; i < point.length; i += n8q) {
+        elements.push(
+          fromMontgomeryLE(point.subarray(i, i + n8q), q, rInverse),
+        );
+      }
+      // G2 coordinates are stored as (c0, c1) but hashed as (c1, c0)
+      if (elements.length === 4) {
+        return Buffer.concat([
+          elements[1],
+          elements[0],
+          elements[3],
+          elements[2],
+        ]);
+      }
+      return Buffer.concat(elements);
+    };
+
+    const data = readSection(fd, sections, ZKEY_SECTION_CONTRIBUTIONS);
+    const csHash = data.subarray(0, 64).toString("hex");
+    const nContributions = data.readUInt32LE(64);
+    const contributions: ZkeyContributionInfo[] = [];
+    let pos = 68;
+
+    for (let i = 0; i < nContributions; i++) {
+      const start = pos;
+      const hasher = crypto.createHash("blake2b512");
+
+      for (const size of [g1Size, g1Size, g1Size, g2Size]) {
+        hasher.update(toUncompressed(data.subarray(pos, pos + size)));
+        pos += size;
+      }
+      hasher.update(data.subarray(pos, pos + 64));
+      pos += 64;
+
+      const contribution: ZkeyContributionInfo = {
+        type: data.readUInt32LE(pos),
+        contributionHash: hasher.digest("hex"),
+        raw: Buffer.alloc(0),
+      };
+      const paramLength = data.readUInt32LE(pos + 4);
+      pos += 8;
+
+      const paramsEnd = pos + paramLength;
+      while (pos < paramsEnd) {
+        const paramType = data[pos++];
+        if (paramType === 1) {
+          const length = data[pos++];
+          contribution.name = data.toString("utf8", pos, pos + length);
+          pos += length;
+        } else if (paramType === 2) {
+          contribution.numIterationsExp = data[pos++];
+        } else if (paramType === 3) {
+          const length = data[pos++];
+          contribution.beaconHash = data.toString("hex", pos, pos + length);
+          pos += length;
+        } else {
+          throw new Error(`Unknown contribution parameter ${paramType}`);
+        }
+      }
+
+      contribution.raw = Buffer.from(data.subarray(start, pos));
+      contributions.push(contribution);
+    }
+
+    return { csHash, contributions };
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+// Lay a contribution hash out the way snarkjs prints it: four lines of four
+// 8-character groups, so it can be compared with a contributor's screen
+export function formatContributionHash(hash: string, indent = ""): string {
+  const groups = hash.match(/.{1,8}/g) ?? [];
+  const lines: string[] = [];
+  for (let i = 0; i < groups.length; i += 4) {
+    lines.push(indent + groups.slice(i, i + 4).join(" "));
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs-extra";
+import * as path from "path";
+import { execFileSync } from "child_process";
+import { secp256k1 } from "@noble/curves/secp256k1";
+import { keccak_256 } from "@noble/hashes/sha3";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+import {
+  Attestation,
+  checkSignerIdentity,
+  ethereumSignature,
+  getAttestationPayload,
+  readAttestation,
+  signWithSshKey,
+  verifyAttestationSignature,
+} from "../src/attestation";
+import { getCeremonyConfig } from "../src/config";
+import { Sandbox } from "./helpers";
+
+// Linking attestation signatures to the contributor's GitHub account. GitHub
+// is replaced by a stub of fetch serving the published keys.
+
+let sandbox: Sandbox;
+let githubKeys: Record<string, string>;
+const originalFetch = globalThis.fetch;
+
+beforeEach(() => {
+  sandbox = new Sandbox();
+  githubKeys = {};
+  globalThis.fetch = async (input) => {
+    const url = String(input);
+    if (!(url in githubKeys)) {
+      throw new TypeError("fetch failed");
+    }
+    return new Response(githubKeys[url]);
+  };
+});
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+  sandbox.dispose();
+});
+
+function unsignedAttestation(contributor = "alice"): Attestation {
+  return {
+    ceremonyId: "test",
+    contributor,
+    contributionNumber: "0001",
+    timestamp: new Date(0).toISOString(),
+    files: [{ filename: "alpha.zkey", hash: "00".repeat(32) }],
+  };
+}
+
+// A fresh SSH key pair; returns the private key path
+function createSshKey(name: string): string {
+  const keyPath = path.join(sandbox.dir, name);
+  execFileSync("ssh-keygen", ["-q", "-t", "ed25519", "-N", "", "-f", keyPath]);
+  return keyPath;
+}
+
+function signedWithSsh(keyPath: string): Attestation {
+  const attestation = unsignedAttestation();
+  const signature = signWithSshKey(getAttestationPayload(attestation), keyPath);
+  return { ...attestation, signature };
+}
+
+// EIP-191 personal_sign, as a wallet does it
+function signedWithEthereum(privateKey: Uint8Array): Attestation {
+  const attestation = unsignedAttestation();
+  const message = utf8ToBytes(getAttestationPayload(attestation));
+  const prefix = utf8ToBytes(`\x19Ethereum Signed Message:\n${message.length}`);
+  const digest = keccak_256(new Uint8Array([...prefix, ...message]));
+  const signature = secp256k1.sign(digest, privateKey);
+  const address = `0x${bytesToHex(
+    keccak_256(secp256k1.getPublicKey(privateKey, false).slice(1)).slice(-20),
+  )}`;
+  const signatureHex = `0x${bytesToHex(signature.toCompactRawBytes())}${(
+    27 + signature.recovery
+  ).toString(16)}`;
+  return {
+    ...attestation,
+    signature: ethereumSignature(address, signatureHex),
+  };
+}
+
+function useAllowedSigners(lines: string[]): void {
+  const file = path.join(sandbox.dir, "allowed_signers");
+  fs.writeFileSync(file, `${lines.join("\n")}\n`);
+  getCeremonyConfig().allowedSignersFile = file;
+}
+
+async function check(attestation: Attestation) {
+  return checkSignerIdentity(
+    attestation,
+    verifyAttestationSignature(attestation),
+  );
+}
+
+describe("checkSignerIdentity", () => {
+  it("links an SSH key the contributor publishes on GitHub", async () => {
+    const keyPath = createSshKey("alice");
+    const publicKey = fs.readFileSync(`${keyPath}.pub`, "utf8");
+    // GitHub serves the keys without their comment
+    githubKeys["https://github.com/alice.keys"] =
+      `ssh-rsa AAAAB3Nza\n${publicKey.split(" ").slice(0, 2).join(" ")}\n`;
+
+    const result = await check(signedWithSsh(keyPath));
+    assert.equal(result.valid, true);
+    assert.equal(result.keyLinked, true);
+    assert.equal(result.keySource, "https://github.com/alice.keys");
+  });
+
+  it("does not link a valid signature by a key of someone else", async () => {
+    const aliceKey = createSshKey("alice");
+    const otherKey = createSshKey("mallory");
+    githubKeys["https://github.com/alice.keys"] = fs.readFileSync(
+      `${aliceKey}.pub`,
+      "utf8",
+    );
+
+    const result = await check(signedWithSsh(otherKey));
+    assert.equal(result.valid, true);
+    assert.equal(result.keyLinked, false);
+    assert.match(result.keySource!, /not among the SSH keys/);
+  });
+
+  it("does not link a key when GitHub cannot be reached", async () => {
+    const result = await check(signedWithSsh(createSshKey("alice")));
+    assert.equal(result.valid, true);
+    assert.equal(result.keyLinked, false);
+    assert.match(result.keySource!, /could not fetch/);
+  });
+
+  it("links a key listed in the allowed signers file", async () => {
+    const keyPath = createSshKey("alice");
+    useAllowedSigners([
+      "# username key",
+      `ALICE ${fs.readFileSync(`${keyPath}.pub`, "utf8").trim()}`,
+    ]);
+
+    const result = await check(signedWithSsh(keyPath));
+    assert.equal(result.keyLinked, true);
+    assert.equal(result.keySource, getCeremonyConfig().allowedSignersFile);
+  });
+
+  it("links an Ethereum address only through the allowed signers file", async () => {
+    const privateKey = secp256k1.utils.randomPrivateKey();
+    const attestation = signedWithEthereum(privateKey);
+    const unlisted = await check(attestation);
+    assert.equal(unlisted.valid, true);
+    assert.equal(unlisted.keyLinked, false);
+
+    useAllowedSigners([
+      `alice ${attestation.signature!.publicKey.toUpperCase().replace("0X", "0x")}`,
+    ]);
+    const listed = await check(attestation);
+    assert.equal(listed.keyLinked, true);
+  });
+
+  it("does not link a key listed for another contributor", async () => {
+    const keyPath = createSshKey("alice");
+    useAllowedSigners([
+      `bob ${fs.readFileSync(`${keyPath}.pub`, "utf8").trim()}`,
+    ]);
+
+    const result = await check(signedWithSsh(keyPath));
+    assert.equal(result.keyLinked, false);
+  });
+
+  it("leaves invalid signatures as they are", async () => {
+    const attestation = signedWithSsh(createSshKey("alice"));
+    attestation.contributionNumber = "0002";
+
+    const result = await check(attestation);
+    assert.equal(result.valid, false);
+    assert.equal(result.keyLinked, undefined);
+  });
+});
+
+describe("readAttestation", () => {
+  it("names the folder of a malformed attestation.json", () => {
+    fs.outputFileSync("contributions/0001_alice/attestation.json", "{");
+    fs.outputJsonSync("contributions/0002_bob/attestation.json", {
+      contributor: "bob",
+    });
+
+    assert.throws(
+      () => readAttestation("0001_alice"),
+      /0001_alice\/attestation.json is not valid JSON/,
+    );
+    assert.throws(
+      () => readAttestation("0002_bob"),
+      /0002_bob\/attestation.json has no contributor or files list/,
+    );
+    assert.equal(readAttestation("0003_carol"), null);
+  });
+});
@@ -0,0 +1,280 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import * as crypto from "crypto";
+import { CeremonyConfig, setCeremonyConfig } from "../src/config";
+import {
+  CeremonyStorage,
+  StorageConflictError,
+  StorageError,
+  StorageNotFoundError,
+  StorageObject,
+  StorageText,
+  StorageUnavailableError,
+  TransferOptions,
+  WriteCondition,
+  setStorage,
+} from "../src/storage";
+
+// In-process stand-in for the S3 bucket. Records every call, so tests can
+// assert what was downloaded, and injects the faults S3 can produce.
+export class FakeStorage implements CeremonyStorage {
+  readonly objects = new Map<string, Buffer>();
+  // Keys passed to get(), in order, and the offset of each call
+  readonly gets: string[] = [];
+  readonly offsets: number[] = [];
+  readonly puts: string[] = [];
+  readonly deletes: string[] = [];
+  // Make list() fail, e.g. for missing credentials
+  failList = false;
+  // get() of these keys fails
+  readonly failingGets = new Set<string>();
+  // get() of these keys returns altered content of the same size this many
+  // more times
+  readonly corruptGets = new Map<string, number>();
+  // get() of these keys breaks off halfway with a temporary error this many
+  // more times
+  readonly flakyGets = new Map<string, number>();
+
+  set(key: string, content: string | Buffer): void {
+    this.objects.set(
+      key,
+      typeof content === "string" ? Buffer.from(content) : content,
+    );
+  }
+
+  uri(key: string): string {
+    return `fake://${key}`;
+  }
+
+  async list(prefix: string): Promise<StorageObject[]> {
+    if (this.failList) {
+      throw new StorageError("list failed", prefix);
+    }
+    return [...this.objects.keys()]
+      .filter((key) => key.startsWith(prefix))
+      .sort()
+      .map((key) => ({ key, size: this.objects.get(key)!.length }));
+  }
+
+  async head(key: string): Promise<StorageObject | null> {
+    const content = this.objects.get(key);
+    return content
+      ? { key, size: content.length, etag: FakeStorage.etagOf(content) }
+      : null;
+  }
+
+  async get(
+    key: string,
+    localPath: string,
+    options: TransferOptions = {},
+  ): Promise<void> {
+    const offset = options.offset ?? 0;
+    this.gets.push(key);
+    this.offsets.push(offset);
+    let content = this.objects.get(key);
+    if (!content) {
+      throw new StorageNotFoundError(key);
+    }
+    if (this.failingGets.has(key)) {
+      throw new StorageError("get failed", key);
+    }
+    if (options.ifMatch && FakeStorage.etagOf(content) !== options.ifMatch) {
+      throw new StorageConflictError(key);
+    }
+
+    const corruptions = this.corruptGets.get(key) ?? 0;
+    if (corruptions > 0) {
+      this.corruptGets.set(key, corruptions - 1);
+      content = Buffer.concat([content.subarray(0, -1), Buffer.from("!")]);
+    }
+    let range = content.subarray(offset);
+    const flaky = this.flakyGets.get(key) ?? 0;
+    if (flaky > 0) {
+      this.flakyGets.set(key, flaky - 1);
+      range = range.subarray(0, Math.floor(range.length / 2));
+    }
+
+    fs.ensureDirSync(path.dirname(localPath));
+    fs.writeFileSync(localPath, range, { flag: offset > 0 ? "a" : "w" });
+    options.onProgress?.(range.length);
+    if (flaky > 0) {
+      throw new StorageUnavailableError(key, "connection reset");
+    }
+  }
+
+  async put(
+    localPath: string,
+    key: string,
+    options: TransferOptions = {},
+  ): Promise<void> {
+    this.puts.push(key);
+    this.objects.set(key, fs.readFileSync(localPath));
+    options.onProgress?.(this.objects.get(key)!.length);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.deletes.push(key);
+    this.objects.delete(key);
+  }
+
+  async readText(key: string): Promise<StorageText | null> {
+    const content = this.objects.get(key);
+    return content
+      ? { content: content.toString("utf8"), etag: FakeStorage.etagOf(content) }
+      : null;
+  }
+
+  async writeText(
+    key: string,
+    content: string,
+    condition: WriteCondition,
+  ): Promise<string> {
+    const current = this.objects.get(key);
+    const holds =
+      "ifNoneMatch" in condition
+        ? !current
+        : current !== undefined &&
+          FakeStorage.etagOf(current) === condition.ifMatch;
+    if (!holds) {
+      throw new StorageConflictError(key);
+    }
+    this.set(key, content);
+    return FakeStorage.etagOf(Buffer.from(content));
+  }
+
+  private static etagOf(content: Buffer): string {
+    return `"${crypto.createHash("md5").update(content).digest("hex")}"`;
+  }
+}
+
+export const TEST_CONFIG: CeremonyConfig = {
+  ceremonyId: "test",
+  storagePrefix: "test-v1",
+  ptau: { file: "test.ptau" },
+  initialFolder: "0000_initial",
+  circuits: ["alpha", "beta"],
+  beacon: { blockNumber: "1", iterations: 10, confirmations: 0 },
+  queue: { turnTimeoutMinutes: 60 },
+  finalFolder: "{number}_final",
+};
+
+export function sha256(content: string): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+// MANIFEST.json content for the given files; only path and SHA-256 are read
+// when downloading
+export function manifestOf(
+  folder: string,
+  files: Record<string, string>,
+): string {
+  return JSON.stringify({
+    folder,
+    createdAt: new Date(0).toISOString(),
+    files: Object.entries(files).map(([file, content]) => ({
+      path: file,
+      size: Buffer.byteLength(content),
+      sha256: sha256(content),
+    })),
+  });
+}
+
+// A temp working directory with its own ./contributions, the test config and
+// a fresh FakeStorage
+export class Sandbox {
+  readonly dir: string;
+  readonly storage = new FakeStorage();
+  private readonly previousDir = process.cwd();
+
+  constructor(config: CeremonyConfig = TEST_CONFIG) {
+    this.dir = fs.mkdtempSync(path.join(os.tmpdir(), "ceremony-test-"));
+    process.chdir(this.dir);
+    setCeremonyConfig(structuredClone(config));
+    setStorage(this.storage);
+  }
+
+  // Put a file into the ceremony prefix of the storage
+  store(relativeKey: string, content: string): void {
+    this.storage.set(`${TEST_CONFIG.storagePrefix}/${relativeKey}`, content);
+  }
+
+  // Put a folder into storage, with a MANIFEST.json of its files unless
+  // withManifest is false
+  storeFolder(
+    folder: string,
+    files: Record<string, string>,
+    withManifest = true,
+  ): void {
+    for (const [file, content] of Object.entries(files)) {
+      this.store(`${folder}/${file}`, content);
+    }
+    if (withManifest) {
+      this.store(`${folder}/MANIFEST.json`, manifestOf(folder, files));
+    }
+  }
+
+  // Write a file below ./contributions
+  writeLocal(relativePath: string, content: string): void {
+    const filePath = this.localPath(relativePath);
+    fs.ensureDirSync(path.dirname(filePath));
+    fs.writeFileSync(filePath, content);
+  }
+
+  readLocal(relativePath: string): string {
+    return fs.readFileSync(this.localPath(relativePath), "utf8");
+  }
+
+  hasLocal(relativePath: string): boolean {
+    return fs.existsSync(this.localPath(relativePath));
+  }
+
+  localPath(relativePath: string): string {
+    return path.join(this.dir, "contributions", relativePath);
+  }
+
+  // Keys fetched from storage, relative to the ceremony prefix
+  get downloads(): string[] {
+    return this.relativeKeys(this.storage.gets);
+  }
+
+  // Keys written to storage, relative to the ceremony prefix
+  get uploads(): string[] {
+    return this.relativeKeys(this.storage.puts);
+  }
+
+  private relativeKeys(keys: string[]): string[] {
+    const prefix = `${TEST_CONFIG.storagePrefix}/`;
+    return keys.map((key) =>
+      key.startsWith(prefix) ? key.slice(prefix.length) : key,
+    );
+  }
+
+  dispose(): void {
+    process.chdir(this.previousDir);
+    fs.removeSync(this.dir);
+  }
+}
+
+// Collects console output instead of printing it
+export class ConsoleCapture {
+  readonly logs: string[] = [];
+  readonly warnings: string[] = [];
+  readonly errors: string[] = [];
+  private readonly original = {
+    log: console.log,
+    warn: console.warn,
+    error: console.error,
+  };
+
+  constructor() {
+    const format = (args: unknown[]) => args.map(String).join(" ");
+    console.log = (...args: unknown[]) => this.logs.push(format(args));
+    console.warn = (...args: unknown[]) => this.warnings.push(format(args));
+    console.error = (...args: unknown[]) => this.errors.push(format(args));
+  }
+
+  restore(): void {
+    Object.assign(console, this.original);
+  }
+}
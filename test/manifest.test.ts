@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { execFileSync } from "child_process";
+import { readCommittedAttestation } from "../src/manifest";
+import { ConsoleCapture, Sandbox } from "./helpers";
+
+// Reading the committed attestation.json that sync and verification trust
+// over the copy in storage
+
+let sandbox: Sandbox;
+let output: ConsoleCapture;
+
+beforeEach(() => {
+  sandbox = new Sandbox();
+  output = new ConsoleCapture();
+});
+
+afterEach(() => {
+  output.restore();
+  sandbox.dispose();
+});
+
+function git(...args: string[]): void {
+  execFileSync(
+    "git",
+    ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args],
+    { stdio: "ignore" },
+  );
+}
+
+describe("readCommittedAttestation", () => {
+  it("reads the attestation.json of HEAD, not the one on disk", () => {
+    sandbox.writeLocal("0001_alice/attestation.json", "committed");
+    git("init", "-q");
+    git("add", "contributions/0001_alice/attestation.json");
+    git("commit", "-q", "-m", "Add 0001_alice");
+    sandbox.writeLocal("0001_alice/attestation.json", "replaced");
+
+    assert.equal(
+      readCommittedAttestation("contributions/0001_alice"),
+      "committed",
+    );
+    assert.deepEqual(output.warnings, []);
+  });
+
+  it("quietly finds nothing for a folder not committed yet", () => {
+    git("init", "-q");
+    sandbox.writeLocal("0002_bob/attestation.json", "new");
+
+    assert.equal(readCommittedAttestation("contributions/0002_bob"), undefined);
+    assert.deepEqual(output.warnings, []);
+  });
+
+  it("warns once that storage is trusted outside a git checkout", () => {
+    sandbox.writeLocal("0001_alice/attestation.json", "local");
+
+    assert.equal(
+      readCommittedAttestation("contributions/0001_alice"),
+      undefined,
+    );
+    readCommittedAttestation("contributions/0002_bob");
+    assert.equal(output.warnings.length, 1);
+    assert.match(output.warnings[0], /No git checkout/);
+  });
+});
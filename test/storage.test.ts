@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import {
+  LocalStorage,
+  StorageConflictError,
+  StorageUnavailableError,
+  setStorage,
+} from "../src/storage";
+import {
+  DEFAULT_RETRY_POLICY,
+  downloadFile,
+  setRetryPolicy,
+} from "../src/transfer";
+import { ConsoleCapture } from "./helpers";
+
+// Conditional writes and version-pinned reads of the local directory
+// backend, which stand in for the S3 conditional requests the turn lock, the
+// queue and resumed downloads rely on
+
+let root: string;
+let storage: LocalStorage;
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "ceremony-storage-"));
+  storage = new LocalStorage(root);
+});
+
+afterEach(() => {
+  fs.removeSync(root);
+});
+
+const KEY = "coordination/turn-lock.json";
+
+describe("LocalStorage.writeText", () => {
+  it("replaces a file whose etag matches", async () => {
+    const etag = await storage.writeText(KEY, "v1", { ifNoneMatch: true });
+    await storage.writeText(KEY, "v2", { ifMatch: etag });
+
+    assert.equal((await storage.readText(KEY))!.content, "v2");
+    assert.equal(fs.existsSync(`${storage.uri(KEY)}.lock`), false);
+  });
+
+  it("lets only one of two writers with the same etag win", async () => {
+    const etag = await storage.writeText(KEY, "v1", { ifNoneMatch: true });
+    const results = await Promise.allSettled([
+      storage.writeText(KEY, "alice", { ifMatch: etag }),
+      storage.writeText(KEY, "bob", { ifMatch: etag }),
+    ]);
+
+    assert.deepEqual(
+      results.map((result) => result.status),
+      ["fulfilled", "rejected"],
+    );
+    assert.equal((await storage.readText(KEY))!.content, "alice");
+  });
+
+  it("refuses to write while another process holds the lock", async () => {
+    const etag = await storage.writeText(KEY, "v1", { ifNoneMatch: true });
+    fs.writeFileSync(`${storage.uri(KEY)}.lock`, "");
+
+    await assert.rejects(
+      storage.writeText(KEY, "v2", { ifMatch: etag }),
+      StorageConflictError,
+    );
+    assert.equal((await storage.readText(KEY))!.content, "v1");
+  });
+
+  it("takes over a lock left behind by a crashed process", async () => {
+    const etag = await storage.writeText(KEY, "v1", { ifNoneMatch: true });
+    const lockPath = `${storage.uri(KEY)}.lock`;
+    fs.writeFileSync(lockPath, "");
+    const old = new Date(Date.now() - 60_000);
+    fs.utimesSync(lockPath, old, old);
+
+    await storage.writeText(KEY, "v2", { ifMatch: etag });
+    assert.equal((await storage.readText(KEY))!.content, "v2");
+  });
+  it("leaves a stale lock to the process that took it over first", async () => {
+    const etag = await storage.writeText(KEY, "v1", { ifNoneMatch: true });
+    const lockPath = `${storage.uri(KEY)}.lock`;
+    fs.writeFileSync(lockPath, "");
+    const old = new Date(Date.now() - 60_000);
+    fs.utimesSync(lockPath, old, old);
+
+    // Another process takes the stale lock over just before this one does
+    const fsModule = require("fs-extra") as typeof fs;
+    const renameSync = fsModule.renameSync;
+    fsModule.renameSync = (from, to) => {
+      fsModule.renameSync = renameSync;
+      fs.removeSync(lockPath);
+      fs.writeFileSync(lockPath, "other");
+      renameSync(from, to);
+    };
+    try {
+      await assert.rejects(
+        storage.writeText(KEY, "v2", { ifMatch: etag }),
+        StorageConflictError,
+      );
+    } finally {
+      fsModule.renameSync = renameSync;
+    }
+    assert.equal(fs.readFileSync(lockPath, "utf8"), "other");
+    assert.equal((await storage.readText(KEY))!.content, "v1");
+    assert.deepEqual(fs.readdirSync(path.dirname(lockPath)).sort(), [
+      "turn-lock.json",
+      "turn-lock.json.lock",
+    ]);
+  });
+});
+
+describe("LocalStorage.get", () => {
+  const ZKEY = "test-v1/0001_alice/alpha.zkey";
+
+  function store(content: string): string {
+    const source = path.join(root, "source");
+    fs.writeFileSync(source, content);
+    return source;
+  }
+
+  it("reads the version it was asked for", async () => {
+    await storage.put(store("0123456789abcdef"), ZKEY);
+    const { etag } = (await storage.head(ZKEY))!;
+    const target = path.join(root, "alpha.zkey");
+    fs.writeFileSync(target, "01234567");
+
+    await storage.get(ZKEY, target, { offset: 8, ifMatch: etag });
+    assert.equal(fs.readFileSync(target, "utf8"), "0123456789abcdef");
+  });
+
+  it("refuses to read a file replaced by one of the same size", async () => {
+    await storage.put(store("0123456789abcdef"), ZKEY);
+    const { etag } = (await storage.head(ZKEY))!;
+    await storage.put(store("fedcba9876543210"), ZKEY);
+
+    assert.notEqual((await storage.head(ZKEY))!.etag, etag);
+    await assert.rejects(
+      storage.get(ZKEY, path.join(root, "alpha.zkey"), {
+        offset: 8,
+        ifMatch: etag,
+      }),
+      StorageConflictError,
+    );
+  });
+
+  it("lets a download replaced halfway start over", async () => {
+    const output = new ConsoleCapture();
+    setStorage(storage);
+    setRetryPolicy({ attempts: 3, baseDelayMs: 1, maxDelayMs: 2 });
+    try {
+      await storage.put(store("0123456789abcdef"), ZKEY);
+      const get = storage.get.bind(storage);
+      let calls = 0;
+      storage.get = async (key, localPath, options) => {
+        if (++calls > 1) {
+          return get(key, localPath, options);
+        }
+        // Break off after half of the old version, then replace it
+        fs.writeFileSync(localPath, "01234567");
+        await storage.put(store("fedcba9876543210"), ZKEY);
+        throw new StorageUnavailableError(key, "connection reset");
+      };
+
+      const target = path.join(root, "alpha.zkey");
+      await downloadFile(ZKEY, target);
+      assert.equal(fs.readFileSync(target, "utf8"), "fedcba9876543210");
+      assert.equal(calls, 3);
+    } finally {
+      setRetryPolicy(DEFAULT_RETRY_POLICY);
+      output.restore();
+    }
+  });
+});
@@ -0,0 +1,216 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs-extra";
+import * as path from "path";
+import {
+  DEFAULT_RETRY_POLICY,
+  TransferError,
+  downloadFile,
+  formatProgress,
+  retryDelayMs,
+  setRetryPolicy,
+  uploadFile,
+  withRetries,
+} from "../src/transfer";
+import {
+  StorageAccessDeniedError,
+  StorageNotFoundError,
+  StorageUnavailableError,
+} from "../src/storage";
+import { ConsoleCapture, Sandbox } from "./helpers";
+
+// Retries, backoff and resumed downloads of transfer.ts, against the same
+// in-process fake of the bucket as the sync tests
+
+let sandbox: Sandbox;
+let output: ConsoleCapture;
+
+beforeEach(() => {
+  sandbox = new Sandbox();
+  output = new ConsoleCapture();
+  setRetryPolicy({ attempts: 3, baseDelayMs: 1, maxDelayMs: 2 });
+});
+
+afterEach(() => {
+  setRetryPolicy(DEFAULT_RETRY_POLICY);
+  output.restore();
+  sandbox.dispose();
+});
+
+const KEY = "test-v1/0001_alice/alpha.zkey";
+const CONTENT = "0123456789abcdef";
+
+function target(): string {
+  return path.join(sandbox.dir, "alpha.zkey");
+}
+
+describe("withRetries", () => {
+  it("retries temporary failures until one succeeds", async () => {
+    let calls = 0;
+    const result = await withRetries("Listing", async () => {
+      if (++calls < 3) {
+        throw new StorageUnavailableError("prefix", "SlowDown");
+      }
+      return "listed";
+    });
+
+    assert.equal(result, "listed");
+    assert.equal(calls, 3);
+    assert.equal(output.warnings.length, 2);
+    assert.match(output.warnings[0], /Listing failed \(attempt 1\/3\)/);
+  });
+
+  it("throws a TransferError once the attempts run out", async () => {
+    let calls = 0;
+    await assert.rejects(
+      withRetries("Listing", async () => {
+        calls++;
+        throw new StorageUnavailableError("prefix", "ECONNRESET");
+      }),
+      (error) =>
+        error instanceof TransferError &&
+        error.cause instanceof StorageUnavailableError &&
+        /Listing failed 3 times/.test(error.message),
+    );
+    assert.equal(calls, 3);
+  });
+
+  it("does not retry failures that cannot go away by themselves", async () => {
+    let calls = 0;
+    await assert.rejects(
+      withRetries("Reading", async () => {
+        calls++;
+        throw new StorageAccessDeniedError("key");
+      }),
+      StorageAccessDeniedError,
+    );
+    assert.equal(calls, 1);
+  });
+});
+
+describe("retryDelayMs", () => {
+  it("doubles from the base delay up to the maximum", () => {
+    const policy = { attempts: 10, baseDelayMs: 1000, maxDelayMs: 30_000 };
+    for (const [attempt, full] of [
+      [1, 1000],
+      [2, 2000],
+      [4, 8000],
+      [6, 30_000],
+      [9, 30_000],
+    ]) {
+      const delay = retryDelayMs(attempt, policy);
+      assert.ok(delay >= full / 2 && delay <= full, `${attempt}: ${delay}`);
+    }
+  });
+});
+
+describe("downloadFile", () => {
+  it("resumes a broken-off download with a ranged request", async () => {
+    sandbox.storage.set(KEY, CONTENT);
+    sandbox.storage.flakyGets.set(KEY, 2);
+
+    await downloadFile(KEY, target());
+    assert.equal(fs.readFileSync(target(), "utf8"), CONTENT);
+    // Half of 16 bytes, then half of the remaining 8, then the rest
+    assert.deepEqual(sandbox.storage.offsets, [0, 8, 12]);
+    assert.equal(fs.existsSync(`${target()}.part`), false);
+    assert.equal(fs.existsSync(`${target()}.part.json`), false);
+  });
+
+  it("keeps the partial download for the next run", async () => {
+    sandbox.storage.set(KEY, CONTENT);
+    sandbox.storage.flakyGets.set(KEY, 3);
+
+    await assert.rejects(downloadFile(KEY, target()), TransferError);
+    assert.equal(fs.existsSync(target()), false);
+    assert.equal(fs.statSync(`${target()}.part`).size, 14);
+
+    await downloadFile(KEY, target());
+    assert.equal(fs.readFileSync(target(), "utf8"), CONTENT);
+    assert.equal(sandbox.storage.offsets.at(-1), 14);
+  });
+
+  it("starts over when the object changed since the partial download", async () => {
+    sandbox.storage.set(KEY, CONTENT);
+    sandbox.storage.flakyGets.set(KEY, 3);
+    await assert.rejects(downloadFile(KEY, target()), TransferError);
+
+    sandbox.storage.set(KEY, `${CONTENT}-v2`);
+    await downloadFile(KEY, target());
+    assert.equal(fs.readFileSync(target(), "utf8"), `${CONTENT}-v2`);
+    assert.equal(sandbox.storage.offsets.at(-1), 0);
+  });
+
+  it("starts over when the object is replaced during the download", async () => {
+    sandbox.storage.set(KEY, CONTENT);
+    sandbox.storage.flakyGets.set(KEY, 1);
+    const get = sandbox.storage.get.bind(sandbox.storage);
+    sandbox.storage.get = async (key, localPath, options) => {
+      try {
+        await get(key, localPath, options);
+      } finally {
+        sandbox.storage.set(KEY, `${CONTENT}-v2`);
+      }
+    };
+
+    await downloadFile(KEY, target());
+    assert.equal(fs.readFileSync(target(), "utf8"), `${CONTENT}-v2`);
+    // The resumed request is refused, as the object is no longer the one the
+    // first half came from
+    assert.deepEqual(sandbox.storage.offsets, [0, 8, 0]);
+    assert.ok(
+      output.warnings.some((warning) => /changed during/.test(warning)),
+    );
+  });
+
+  it("writes the partial download where it is told to", async () => {
+    sandbox.storage.set(KEY, CONTENT);
+    sandbox.storage.flakyGets.set(KEY, 3);
+    const partPath = path.join(sandbox.dir, ".partial", "alpha.zkey.part");
+
+    await assert.rejects(downloadFile(KEY, target(), partPath), TransferError);
+    assert.ok(fs.existsSync(partPath));
+    assert.equal(fs.existsSync(`${target()}.part`), false);
+  });
+
+  it("fails at once for a missing object", async () => {
+    await assert.rejects(downloadFile(KEY, target()), StorageNotFoundError);
+    assert.deepEqual(sandbox.storage.gets, []);
+  });
+});
+
+describe("uploadFile", () => {
+  it("retries a temporary failure with the whole file", async () => {
+    fs.writeFileSync(target(), CONTENT);
+    const put = sandbox.storage.put.bind(sandbox.storage);
+    let calls = 0;
+    sandbox.storage.put = async (localPath, key, options) => {
+      if (++calls === 1) {
+        throw new StorageUnavailableError(key, "InternalError");
+      }
+      await put(localPath, key, options);
+    };
+
+    await uploadFile(target(), KEY);
+    assert.equal(calls, 2);
+    assert.equal(sandbox.storage.objects.get(KEY)!.toString(), CONTENT);
+  });
+});
+
+describe("formatProgress", () => {
+  it("shows the share done, the rate and the time left", () => {
+    const MB = 1024 * 1024;
+    assert.equal(
+      formatProgress("alpha.zkey", 50 * MB, 200 * MB, 50 * MB, 10_000),
+      "alpha.zkey  25% 50.0/200.0 MB  5.0 MB/s  ETA 0:30",
+    );
+  });
+
+  it("leaves already present bytes out of the rate", () => {
+    const MB = 1024 * 1024;
+    assert.match(
+      formatProgress("ptau", 150 * MB, 200 * MB, 10 * MB, 10_000),
+      /1\.0 MB\/s {2}ETA 0:50$/,
+    );
+  });
+});
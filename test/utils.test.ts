@@ -0,0 +1,628 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as crypto from "crypto";
+import * as fs from "fs-extra";
+import { execFileSync } from "child_process";
+import {
+  downloadLatestContribution,
+  ensureInitialSetup,
+  ensurePtauFile,
+  ensureR1csFiles,
+  getRecordedHashes,
+  planSync,
+  quarantineFolder,
+  syncFolder,
+  uploadToS3,
+  verifyStorageCopy,
+} from "../src/utils";
+import { getCeremonyConfig } from "../src/config";
+import { IntegrityError } from "../src/manifest";
+import { StorageError } from "../src/storage";
+import { TransferError } from "../src/transfer";
+import { ConsoleCapture, Sandbox, sha256 } from "./helpers";
+
+// The storage sync logic in utils.ts, against an in-process fake of the
+// bucket. Each test pins the decision taken: download, upload, skip, warn or
+// throw.
+
+let sandbox: Sandbox;
+let output: ConsoleCapture;
+
+beforeEach(() => {
+  sandbox = new Sandbox();
+  output = new ConsoleCapture();
+});
+
+afterEach(() => {
+  output.restore();
+  sandbox.dispose();
+});
+
+const INITIAL_FILES = { "alpha.zkey": "alpha-0", "beta.zkey": "beta-0" };
+const FOLDER_FILES = {
+  "alpha.zkey": "alpha-1",
+  "beta.zkey": "beta-1",
+  "attestation.json": "{}",
+};
+
+function hasWarning(pattern: RegExp): boolean {
+  return output.warnings.some((warning) => pattern.test(warning));
+}
+
+// Local copy of a folder as storage holds it, manifest included
+function copyToLocal(folder: string): void {
+  const prefix = `test-v1/${folder}/`;
+  for (const [key, content] of sandbox.storage.objects) {
+    if (key.startsWith(prefix)) {
+      sandbox.writeLocal(
+        `${folder}/${key.slice(prefix.length)}`,
+        content.toString(),
+      );
+    }
+  }
+}
+
+describe("syncFolder pull", () => {
+  it("downloads every file of a folder missing locally", async () => {
+    sandbox.storeFolder("0001_alice", FOLDER_FILES);
+
+    const result = await syncFolder("0001_alice", { direction: "pull" });
+    assert.deepEqual(result.failed, []);
+    assert.equal(sandbox.readLocal("0001_alice/alpha.zkey"), "alpha-1");
+    assert.equal(sandbox.readLocal("0001_alice/beta.zkey"), "beta-1");
+    assert.equal(sandbox.downloads.length, 4);
+  });
+
+  it("does nothing for a folder missing in storage", async () => {
+    sandbox.writeLocal("0001_alice/alpha.zkey", "alpha-1");
+
+    const result = await syncFolder("0001_alice", { direction: "pull" });
+    assert.deepEqual(result.actions, []);
+    assert.deepEqual(result.diff.localOnly, ["alpha.zkey"]);
+    assert.deepEqual(sandbox.downloads, []);
+  });
+
+  it("passes storage errors on", async () => {
+    sandbox.storeFolder("0001_alice", FOLDER_FILES);
+    sandbox.storage.failList = true;
+
+    await assert.rejects(
+      syncFolder("0001_alice", { direction: "pull" }),
+      StorageError,
+    );
+  });
+
+  it("downloads only what is missing", async () => {
+    sandbox.storeFolder("0001_alice", FOLDER_FILES);
+    copyToLocal("0001_alice");
+    fs.removeSync(sandbox.localPath("0001_alice/beta.zkey"));
+
+    const result = await syncFolder("0001_alice", { direction: "pull" });
+    assert.deepEqual(sandbox.downloads, ["0001_alice/beta.zkey"]);
+    assert.equal(result.diff.unchanged.length, 3);
+  });
+
+  it("replaces a local copy that fails its recorded hash", async () => {
+    sandbox.storeFolder("0001_alice", FOLDER_FILES);
+    copyToLocal("0001_alice");
+    // Same size, different content
+    sandbox.writeLocal("0001_alice/alpha.zkey", "alpha-X");
+
+    const result = await syncFolder("0001_alice", { direction: "pull" });
+    assert.deepEqual(result.diff.changed, [
+      { file: "alpha.zkey", reason: "hash" },
+    ]);
+    assert.ok(hasWarning(/Local 0001_alice\/alpha.zkey does not match/));
+    assert.equal(sandbox.readLocal("0001_alice/alpha.zkey"), "alpha-1");
+    assert.equal(fs.readdirSync(`${quarantineFolder}/0001_alice`).length, 1);
+  });
+
+  it("replaces a local copy of another size without a recorded hash", async () => {
+    sandbox.storeFolder("0001_alice", FOLDER_FILES, false);
+    copyToLocal("0001_alice");
+    sandbox.writeLocal("0001_alice/beta.zkey", "truncated");
+
+    const result = await syncFolder("0001_alice", { direction: "pull" });
+    assert.deepEqual(result.diff.changed, [
+      { file: "beta.zkey", reason: "size" },
+    ]);
+    assert.equal(sandbox.readLocal("0001_alice/beta.zkey"), "beta-1");
+  });
+
+  it("keeps files of the same size when no hash is recorded", async () => {
+    sandbox.storeFolder("0001_alice", FOLDER_FILES, false);
+    copyToLocal("0001_alice");
+    sandbox.writeLocal("0001_alice/alpha.zkey", "alpha-X");
+
+    const result = await syncFolder("0001_alice", { direction: "pull" });
+    assert.deepEqual(result.actions, []);
+    assert.equal(sandbox.readLocal("0001_alice/alpha.zkey"), "alpha-X");
+  });
+
+  it("ignores OS files and leaves extra local files alone", async () => {
+    sandbox.storeFolder("0001_alice", FOLDER_FILES);
+    sandbox.store("0001_alice/.DS_Store", "finder");
+    copyToLocal("0001_alice");
+    sandbox.writeLocal("0001_alice/receipt.txt", "local only");
+    sandbox.writeLocal("0001_alice/._alpha.zkey", "resource fork");
+
+    const result = await syncFolder("0001_alice", { direction: "pull" });
+    assert.deepEqual(result.actions, []);
+    assert.deepEqual(result.diff.localOnly, ["receipt.txt"]);
+    assert.ok(
+      output.logs.some((log) => /1 files exist locally but not/.test(log)),
+    );
+    assert.ok(sandbox.hasLocal("0001_alice/receipt.txt"));
+  });
+
+  it("deletes extra local files with delete", async () => {
+    sandbox.storeFolder("0001_alice", FOLDER_FILES);
+    copyToLocal("0001_alice");
+    sandbox.writeLocal("0001_alice/receipt.txt", "local only");
+
+    await syncFolder("0001_alice", { direction: "pull", delete: true });
+    assert.equal(sandbox.hasLocal("0001_alice/receipt.txt"), false);
+    assert.ok(sandbox.hasLocal("0001_alice/alpha.zkey"));
+  });
+
+  it("deletes nothing to match an empty storage folder", async () => {
+    sandbox.writeLocal("0001_alice/alpha.zkey", "alpha-1");
+
+    const plan = await planSync("0001_alice", {
+      direction: "pull",
+      delete: true,
+    });
+    assert.deepEqual(plan.actions, []);
+  });
+
+  it("only plans with dryRun", async () => {
+    sandbox.storeFolder("0001_alice", FOLDER_FILES);
+    sandbox.writeLocal("0001_alice/alpha.zkey", "tampered");
+
+    const result = await syncFolder("0001_alice", {
+      direction: "pull",
+      dryRun: true,
+    });
+    assert.equal(result.dryRun, true);
+    assert.deepEqual(
+      result.actions.map(({ type, file, reason }) => [type, file, reason]),
+      [
+        ["download", "MANIFEST.json", "missing"],
+        ["download", "attestation.json", "missing"],
+        ["download", "beta.zkey", "missing"],
+        ["download", "alpha.zkey", "size"],
+      ],
+    );
+    assert.deepEqual(sandbox.downloads, []);
+    assert.equal(sandbox.readLocal("0001_alice/alpha.zkey"), "tampered");
+  });
+
+  it("retries a corrupted download and keeps the bad copy", async () => {
+    sandbox.storeFolder("0001_alice", FOLDER_FILES);
+    sandbox.storage.corruptGets.set("test-v1/0001_alice/alpha.zkey", 1);
+
+    const result = await syncFolder("0001_alice", { direction: "pull" });
+    assert.deepEqual(result.failed, []);
+    assert.equal(sandbox.readLocal("0001_alice/alpha.zkey"), "alpha-1");
+    assert.equal(
+      sandbox.downloads.filter((key) => key === "0001_alice/alpha.zkey").length,
+      2,
+    );
+    assert.equal(fs.readdirSync(`${quarantineFolder}/0001_alice`).length, 1);
+  });
+
+  it("throws an IntegrityError when every attempt is corrupted", async () => {
+    sandbox.storeFolder("0001_alice", FOLDER_FILES);
+    sandbox.storage.corruptGets.set("test-v1/0001_alice/alpha.zkey", 3);
+
+    await assert.rejects(
+      syncFolder("0001_alice", { direction: "pull" }),
+      IntegrityError,
+    );
+    assert.equal(fs.readdirSync(`${quarantineFolder}/0001_alice`).length, 3);
+  });
+
+  it("takes corrupted files as they are when no hash is recorded", async () => {
+    sandbox.storeFolder("0001_alice", FOLDER_FILES, false);
+    sandbox.storage.corruptGets.set("test-v1/0001_alice/alpha.zkey", 1);
+
+    await syncFolder("0001_alice", { direction: "pull" });
+    assert.equal(sandbox.readLocal("0001_alice/alpha.zkey"), "alpha-!");
+  });
+
+  it("checks zkeys against attestation.json without a manifest", async () => {
+    sandbox.storeFolder(
+      "0001_alice",
+      {
+        "alpha.zkey": "alpha-1",
+        "attestation.json": JSON.stringify({
+          files: [{ filename: "alpha.zkey", hash: sha256("alpha-1") }],
+        }),
+      },
+      false,
+    );
+    sandbox.storage.corruptGets.set("test-v1/0001_alice/alpha.zkey", 3);
+
+    await assert.rejects(
+      syncFolder("0001_alice", { direction: "pull" }),
+      IntegrityError,
+    );
+  });
+
+  it("reports a failed download and carries on", async () => {
+    sandbox.storeFolder("0001_alice", FOLDER_FILES);
+    sandbox.storage.failingGets.add("test-v1/0001_alice/alpha.zkey");
+
+    const result = await syncFolder("0001_alice", { direction: "pull" });
+    assert.deepEqual(
+      result.failed.map(({ action }) => action.file),
+      ["alpha.zkey"],
+    );
+    assert.ok(
+      output.errors.some((error) =>
+        /Could not download 0001_alice\/alpha.zkey/.test(error),
+      ),
+    );
+    assert.equal(sandbox.readLocal("0001_alice/beta.zkey"), "beta-1");
+  });
+});
+
+describe("syncFolder with a committed attestation", () => {
+  // The attestation of 0001_alice as the repository has it
+  function commitAttestation(files: Record<string, string>): string {
+    const attestation = JSON.stringify({
+      contributor: "alice",
+      files: Object.entries(files).map(([filename, content]) => ({
+        filename,
+        hash: sha256(content),
+      })),
+    });
+    sandbox.writeLocal("0001_alice/attestation.json", attestation);
+    const git = (...args: string[]) =>
+      execFileSync("git", args, { stdio: "ignore" });
+    git("init", "-q");
+    git("add", "contributions/0001_alice/attestation.json");
+    git(
+      "-c",
+      "user.name=test",
+      "-c",
+      "user.email=test@example.com",
+      "commit",
+      "-q",
+      "-m",
+      "Add 0001_alice",
+    );
+    return attestation;
+  }
+
+  it("checks downloads against the committed hashes", async () => {
+    const attestation = commitAttestation({
+      "alpha.zkey": "alpha-1",
+      "beta.zkey": "beta-1",
+    });
+    // Storage swapped a zkey and left out its attestation
+    sandbox.storeFolder(
+      "0001_alice",
+      { "alpha.zkey": "alpha-X", "beta.zkey": "beta-1" },
+      false,
+    );
+
+    await assert.rejects(
+      syncFolder("0001_alice", { direction: "pull" }),
+      IntegrityError,
+    );
+    assert.equal(sandbox.readLocal("0001_alice/attestation.json"), attestation);
+  });
+
+  it("refuses a storage attestation that differs from the committed one", async () => {
+    commitAttestation({ "alpha.zkey": "alpha-1", "beta.zkey": "beta-1" });
+    // Storage vouches for its own swapped zkey
+    sandbox.storeFolder("0001_alice", {
+      "alpha.zkey": "alpha-X",
+      "beta.zkey": "beta-1",
+      "attestation.json": JSON.stringify({
+        contributor: "alice",
+        files: [
+          { filename: "alpha.zkey", hash: sha256("alpha-X") },
+          { filename: "beta.zkey", hash: sha256("beta-1") },
+        ],
+      }),
+    });
+
+    await assert.rejects(
+      syncFolder("0001_alice", { direction: "pull" }),
+      /in storage does not match the committed one for: alpha.zkey/,
+    );
+    assert.deepEqual(sandbox.downloads, []);
+  });
+
+  it("downloads a folder that matches the committed attestation", async () => {
+    const attestation = commitAttestation({
+      "alpha.zkey": "alpha-1",
+      "beta.zkey": "beta-1",
+    });
+    sandbox.storeFolder("0001_alice", {
+      "alpha.zkey": "alpha-1",
+      "beta.zkey": "beta-1",
+      "attestation.json": attestation,
+    });
+
+    const result = await syncFolder("0001_alice", { direction: "pull" });
+    assert.deepEqual(result.failed, []);
+    assert.equal(sandbox.readLocal("0001_alice/alpha.zkey"), "alpha-1");
+  });
+
+  it("records the committed hashes, not those of storage", async () => {
+    commitAttestation({ "alpha.zkey": "alpha-1", "beta.zkey": "beta-1" });
+    sandbox.storeFolder(
+      "0001_alice",
+      { "alpha.zkey": "alpha-X", "beta.zkey": "beta-1" },
+      false,
+    );
+
+    const recorded = await getRecordedHashes("0001_alice");
+    assert.equal(recorded.get("alpha.zkey"), sha256("alpha-1"));
+    assert.equal(recorded.get("beta.zkey"), sha256("beta-1"));
+  });
+});
+
+describe("syncFolder push", () => {
+  it("uploads what storage is missing or holds differently", async () => {
+    sandbox.storeFolder("0001_alice", FOLDER_FILES, false);
+    sandbox.writeLocal("0001_alice/alpha.zkey", "alpha-1");
+    sandbox.writeLocal("0001_alice/beta.zkey", "beta-1 redone");
+    sandbox.writeLocal("0001_alice/receipt.txt", "new");
+
+    const result = await syncFolder("0001_alice", { direction: "push" });
+    assert.deepEqual(result.failed, []);
+    assert.deepEqual(sandbox.uploads.sort(), [
+      "0001_alice/beta.zkey",
+      "0001_alice/receipt.txt",
+    ]);
+    assert.deepEqual(result.diff.remoteOnly, ["attestation.json"]);
+    assert.deepEqual(sandbox.storage.deletes, []);
+  });
+
+  it("deletes files only storage has with delete", async () => {
+    sandbox.storeFolder("0001_alice", FOLDER_FILES, false);
+    sandbox.writeLocal("0001_alice/alpha.zkey", "alpha-1");
+
+    await syncFolder("0001_alice", { direction: "push", delete: true });
+    assert.deepEqual(sandbox.storage.deletes.sort(), [
+      "test-v1/0001_alice/attestation.json",
+      "test-v1/0001_alice/beta.zkey",
+    ]);
+  });
+});
+
+describe("uploadToS3", () => {
+  it("uploads a new folder and leaves storage matching it", async () => {
+    for (const [file, content] of Object.entries(FOLDER_FILES)) {
+      sandbox.writeLocal(`0002_bob/${file}`, content);
+    }
+
+    assert.equal(await uploadToS3("0002_bob"), true);
+    assert.equal(sandbox.uploads.length, 3);
+    assert.equal(await verifyStorageCopy("0002_bob"), true);
+  });
+
+  it("returns false for an empty local folder", async () => {
+    assert.equal(await uploadToS3("0002_bob"), false);
+    assert.ok(hasWarning(/Storage upload was not successful/));
+  });
+
+  it("returns false when an upload fails", async () => {
+    sandbox.writeLocal("0002_bob/alpha.zkey", "alpha-2");
+    sandbox.storage.put = async () => {
+      throw new StorageError("put failed");
+    };
+
+    assert.equal(await uploadToS3("0002_bob"), false);
+    assert.ok(hasWarning(/1 files failed/));
+  });
+});
+
+describe("verifyStorageCopy", () => {
+  it("lists every difference between storage and the local folder", async () => {
+    sandbox.storeFolder("0001_alice", FOLDER_FILES);
+    copyToLocal("0001_alice");
+    sandbox.writeLocal("0001_alice/alpha.zkey", "alpha-X");
+    sandbox.writeLocal("0001_alice/receipt.txt", "local only");
+
+    assert.equal(await verifyStorageCopy("0001_alice"), false);
+    assert.ok(hasWarning(/alpha.zkey: SHA-256 differs/));
+    assert.ok(hasWarning(/receipt.txt: missing in storage/));
+  });
+
+  it("returns false instead of throwing when storage fails", async () => {
+    sandbox.storage.failList = true;
+
+    assert.equal(await verifyStorageCopy("0001_alice"), false);
+    assert.ok(output.errors.some((error) => /Error comparing/.test(error)));
+  });
+});
+
+describe("downloadLatestContribution", () => {
+  it("returns null when storage holds no contribution folder", async () => {
+    assert.equal(await downloadLatestContribution(), null);
+    assert.deepEqual(sandbox.downloads, []);
+  });
+
+  it("returns null instead of throwing when storage fails", async () => {
+    sandbox.storeFolder("0000_initial", INITIAL_FILES);
+    sandbox.storage.failList = true;
+
+    assert.equal(await downloadLatestContribution(), null);
+    assert.ok(hasWarning(/Will proceed with local files only/));
+  });
+
+  it("downloads the latest folder when it is missing locally", async () => {
+    sandbox.storeFolder("0000_initial", INITIAL_FILES);
+    sandbox.storeFolder("0001_alice", FOLDER_FILES);
+
+    assert.equal(await downloadLatestContribution(), "0001_alice");
+    assert.ok(sandbox.downloads.every((key) => key.startsWith("0001_alice/")));
+    assert.equal(sandbox.readLocal("0001_alice/beta.zkey"), "beta-1");
+  });
+
+  it("downloads nothing when the local folder is complete", async () => {
+    sandbox.storeFolder("0001_alice", FOLDER_FILES);
+    copyToLocal("0001_alice");
+    sandbox.writeLocal("0001_alice/notes.txt", "extra");
+
+    assert.equal(await downloadLatestContribution(), "0001_alice");
+    assert.deepEqual(sandbox.downloads, []);
+  });
+
+  it("completes a partial local folder", async () => {
+    sandbox.storeFolder("0001_alice", FOLDER_FILES);
+    sandbox.writeLocal("0001_alice/alpha.zkey", "alpha-1");
+
+    assert.equal(await downloadLatestContribution(), "0001_alice");
+    assert.equal(sandbox.downloads.includes("0001_alice/alpha.zkey"), false);
+    assert.equal(sandbox.readLocal("0001_alice/beta.zkey"), "beta-1");
+  });
+
+  it("quarantines a corrupted local zkey and downloads it again", async () => {
+    sandbox.storeFolder("0001_alice", FOLDER_FILES);
+    copyToLocal("0001_alice");
+    sandbox.writeLocal("0001_alice/alpha.zkey", "tampered");
+
+    assert.equal(await downloadLatestContribution(), "0001_alice");
+    assert.ok(hasWarning(/Local 0001_alice\/alpha.zkey does not match/));
+    assert.equal(sandbox.readLocal("0001_alice/alpha.zkey"), "alpha-1");
+    assert.equal(fs.readdirSync(`${quarantineFolder}/0001_alice`).length, 1);
+  });
+
+  it("passes an IntegrityError on", async () => {
+    sandbox.storeFolder("0001_alice", FOLDER_FILES);
+    sandbox.storage.corruptGets.set("test-v1/0001_alice/beta.zkey", 3);
+
+    await assert.rejects(downloadLatestContribution(), IntegrityError);
+  });
+
+  it("throws a TransferError when a file cannot be downloaded", async () => {
+    sandbox.storeFolder("0001_alice", FOLDER_FILES);
+    sandbox.storage.failingGets.add("test-v1/0001_alice/alpha.zkey");
+
+    await assert.rejects(
+      downloadLatestContribution(),
+      (error) =>
+        error instanceof TransferError &&
+        /Could not download alpha.zkey of 0001_alice/.test(error.message),
+    );
+    assert.equal(sandbox.hasLocal("0001_alice/alpha.zkey"), false);
+  });
+
+  it("warns when the folder has no zkey", async () => {
+    sandbox.storeFolder("0001_alice", { "attestation.json": "{}" });
+
+    assert.equal(await downloadLatestContribution(), "0001_alice");
+    assert.ok(hasWarning(/0001_alice is missing required zkey files/));
+  });
+});
+
+describe("ensureInitialSetup", () => {
+  it("downloads the initial folder when it is missing locally", async () => {
+    sandbox.storeFolder("0000_initial", INITIAL_FILES);
+
+    await ensureInitialSetup();
+    assert.equal(sandbox.readLocal("0000_initial/alpha.zkey"), "alpha-0");
+    assert.equal(sandbox.readLocal("0000_initial/beta.zkey"), "beta-0");
+  });
+
+  it("downloads a circuit missing locally", async () => {
+    sandbox.storeFolder("0000_initial", INITIAL_FILES);
+    sandbox.writeLocal("0000_initial/alpha.zkey", "alpha-0");
+
+    await ensureInitialSetup();
+    assert.deepEqual(sandbox.downloads.sort(), [
+      "0000_initial/MANIFEST.json",
+      "0000_initial/beta.zkey",
+    ]);
+    assert.equal(sandbox.readLocal("0000_initial/beta.zkey"), "beta-0");
+  });
+
+  it("throws when storage cannot provide the initial folder", async () => {
+    await assert.rejects(
+      ensureInitialSetup(),
+      /Cannot proceed without proper initial setup/,
+    );
+  });
+
+  it("throws when storage lacks a circuit", async () => {
+    sandbox.storeFolder("0000_initial", { "alpha.zkey": "alpha-0" });
+
+    await assert.rejects(
+      ensureInitialSetup(),
+      /Cannot proceed without proper initial setup/,
+    );
+    assert.ok(hasWarning(/missing zkeys for: beta/));
+  });
+
+  it("uses a complete local folder when storage fails", async () => {
+    sandbox.writeLocal("0000_initial/alpha.zkey", "alpha-0");
+    sandbox.writeLocal("0000_initial/beta.zkey", "beta-0");
+    sandbox.storage.failList = true;
+
+    await ensureInitialSetup();
+    assert.ok(output.errors.some((error) => /Error syncing/.test(error)));
+  });
+});
+
+describe("ensurePtauFile", () => {
+  const blake2b512 = (content: string) =>
+    crypto.createHash("blake2b512").update(content).digest("hex");
+
+  it("checks the published Blake2b-512 of a downloaded PTAU file", async () => {
+    sandbox.storage.set("test.ptau", "powers");
+    getCeremonyConfig().ptau.blake2b512 = blake2b512("powers");
+
+    await ensurePtauFile();
+    assert.equal(sandbox.readLocal("test.ptau"), "powers");
+    assert.ok(
+      output.logs.some((log) => /matches the expected Blake2b-512/.test(log)),
+    );
+  });
+
+  it("replaces a local PTAU file with another hash", async () => {
+    sandbox.storage.set("test.ptau", "powers");
+    sandbox.writeLocal("test.ptau", "tampered");
+    getCeremonyConfig().ptau.blake2b512 = blake2b512("powers");
+
+    await ensurePtauFile();
+    assert.equal(sandbox.readLocal("test.ptau"), "powers");
+    assert.ok(hasWarning(/Local PTAU file has Blake2b-512/));
+  });
+
+  it("fails when storage only has a PTAU file with another hash", async () => {
+    sandbox.storage.set("test.ptau", "tampered");
+    getCeremonyConfig().ptau.sha256 = sha256("powers");
+    getCeremonyConfig().ptau.blake2b512 = blake2b512("tampered");
+
+    await assert.rejects(ensurePtauFile(), IntegrityError);
+    assert.equal(fs.existsSync("contributions/test.ptau"), false);
+  });
+});
+
+describe("ensureR1csFiles", () => {
+  it("downloads missing r1cs files", async () => {
+    sandbox.store("r1cs/alpha.r1cs", "alpha");
+    sandbox.store("r1cs/beta.r1cs", "beta");
+    sandbox.writeLocal("r1cs/alpha.r1cs", "alpha");
+
+    await ensureR1csFiles();
+    assert.deepEqual(sandbox.downloads, ["r1cs/beta.r1cs"]);
+    assert.equal(sandbox.readLocal("r1cs/beta.r1cs"), "beta");
+  });
+
+  it("uses local r1cs files that storage does not have", async () => {
+    sandbox.writeLocal("r1cs/alpha.r1cs", "alpha");
+
+    assert.equal(await ensureR1csFiles(), "contributions/r1cs");
+  });
+
+  it("throws without r1cs files on either side", async () => {
+    await assert.rejects(ensureR1csFiles(), /Cannot proceed without r1cs/);
+  });
+});